@@ -1,4 +1,7 @@
 import * as dotenv from "dotenv";
+import path from "path";
+import { CatchUpPolicy } from "./types";
+import { logger, LoggerSettings } from "./utils/logger";
 
 // Load environment variables
 dotenv.config();
@@ -7,42 +10,158 @@ dotenv.config();
 export const DISCORD_TOKEN = process.env.DISCORD_TOKEN as string;
 export const DISCORD_CLIENT_ID = process.env.DISCORD_CLIENT_ID as string;
 export const DISCORD_CHANNEL_ID = process.env.DISCORD_CHANNEL_ID as string;
+export const DISCORD_READY_TIMEOUT_MS = parseInt(process.env.DISCORD_READY_TIMEOUT_MS || "30000", 10); // Startup wait for the gateway
 
 // Telegram configuration
 export const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN as string;
 export const TELEGRAM_CHAT_ID = process.env.TELEGRAM_CHAT_ID as string;
 
+// Platforms to run; each one is on when its token is set unless turned off (or on) explicitly
+export const DISCORD_ENABLED = process.env.DISCORD_ENABLED
+    ? process.env.DISCORD_ENABLED === "true"
+    : Boolean(process.env.DISCORD_TOKEN);
+export const TELEGRAM_ENABLED = process.env.TELEGRAM_ENABLED
+    ? process.env.TELEGRAM_ENABLED === "true"
+    : Boolean(process.env.TELEGRAM_BOT_TOKEN);
+
 // API configuration
 export const ARTIST_ENDPOINT = process.env.ARTIST_ENDPOINT || "https://beta.rejkt.xyz/.netlify/functions/randomArtist";
 export const NFT_ENDPOINT = process.env.NFT_ENDPOINT || "https://beta.rejkt.xyz/.netlify/functions/randomListing";
 export const API_KEY = process.env.API_KEY as string;
+export const API_TIMEOUT_MS = parseInt(process.env.API_TIMEOUT_MS || "10000", 10); // Per-request timeout
+export const API_MAX_RETRIES = parseInt(process.env.API_MAX_RETRIES || "2", 10); // Retries after the first attempt
+export const API_RETRY_BASE_DELAY_MS = parseInt(process.env.API_RETRY_BASE_DELAY_MS || "500", 10); // Doubles per retry
+export const API_CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.API_CIRCUIT_FAILURE_THRESHOLD || "5", 10);
+export const API_CIRCUIT_COOLDOWN_MS = parseInt(process.env.API_CIRCUIT_COOLDOWN_MS || "60000", 10);
+export const API_CIRCUIT_HALF_OPEN_TRIALS = parseInt(process.env.API_CIRCUIT_HALF_OPEN_TRIALS || "1", 10); // Trial requests after the cooldown
 
 // Schedule configuration
 export const SCHEDULE_CRON = process.env.SCHEDULE_CRON || "0 */6 * * *"; // Default: every 6 hours
 
+// Storage backend for schedules, run history and settings
+export const STORAGE_BACKEND = (process.env.STORAGE_BACKEND || "json") as "json" | "sqlite";
+export const SCHEDULES_FILE = path.resolve(process.env.SCHEDULES_FILE || "schedules.json"); // JSON backend
+export const SQLITE_PATH = path.resolve(process.env.SQLITE_PATH || "schedules.db"); // SQLite backend
+export const STORE_BACKUP_COUNT = parseInt(process.env.STORE_BACKUP_COUNT || "5", 10); // Rotating JSON backups kept
+export const STORE_BACKUP_INTERVAL_MINUTES = parseFloat(process.env.STORE_BACKUP_INTERVAL_MINUTES || "60"); // Between backups
+export const STORE_HOT_RELOAD = process.env.STORE_HOT_RELOAD !== "false"; // Apply external edits to the store live
+
+// Built-in HTTP server for the admin API; off by default and only reachable from this machine unless HTTP_HOST changes
+export const HTTP_ENABLED = process.env.HTTP_ENABLED === "true";
+export const HTTP_HOST = process.env.HTTP_HOST || "127.0.0.1";
+export const HTTP_PORT = parseInt(process.env.HTTP_PORT || "8080", 10);
+export const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN as string; // Bearer token for the /api endpoints
+
+// Separate HTTP server for health checks and metrics; needs no token, and listens on every interface by default so
+// orchestrators, uptime monitors and scrapers on other hosts can reach it without exposing the admin API
+export const MONITORING_ENABLED = process.env.MONITORING_ENABLED === "true";
+export const MONITORING_HOST = process.env.MONITORING_HOST || "0.0.0.0";
+export const MONITORING_PORT = parseInt(process.env.MONITORING_PORT || "9090", 10);
+export const METRICS_ENABLED = process.env.METRICS_ENABLED === "true"; // Serve Prometheus metrics on /metrics
+
+// Logging: debug | info | warn | error, written as pretty lines or one JSON object per line
+export const LOG_LEVEL = (process.env.LOG_LEVEL || "info") as "debug" | "info" | "warn" | "error";
+export const LOG_FORMAT = (process.env.LOG_FORMAT || "pretty") as "pretty" | "json";
+
+// Applied with configureLogger by each entry point
+export const LOG_SETTINGS: LoggerSettings = {
+    level: LOG_LEVEL,
+    format: LOG_FORMAT,
+    secrets: [DISCORD_TOKEN, TELEGRAM_BOT_TOKEN, API_KEY, ADMIN_API_TOKEN],
+};
+
+// Duplicate avoidance: don't repost the same artist/NFT to a target within this window
+export const DEDUPE_WINDOW_HOURS = parseFloat(process.env.DEDUPE_WINDOW_HOURS || "168"); // Default: one week, 0 disables
+export const DEDUPE_MAX_ATTEMPTS = parseInt(process.env.DEDUPE_MAX_ATTEMPTS || "3", 10); // Draws before giving up
+export const DEDUPE_INTERACTIVE = process.env.DEDUPE_INTERACTIVE === "true"; // Apply to /random-* commands too
+
+// Draws allowed when looking for content that matches a schedule's filters
+export const FILTER_MAX_ATTEMPTS = parseInt(process.env.FILTER_MAX_ATTEMPTS || "5", 10);
+
+// Catch-up defaults for runs missed while the bot was offline (schedules can override these)
+export const CATCH_UP_POLICY = (process.env.CATCH_UP_POLICY || "once") as CatchUpPolicy; // skip | once | all
+export const CATCH_UP_MAX_RUNS = parseInt(process.env.CATCH_UP_MAX_RUNS || "3", 10); // Cap for the "all" policy
+
 // Validate required environment variables
 export const validateConfig = (): boolean => {
     const missingVars: string[] = [];
 
+    if (!DISCORD_ENABLED && !TELEGRAM_ENABLED) {
+        logger.error(
+            "No platform is enabled. Set DISCORD_TOKEN and DISCORD_CLIENT_ID for Discord, " +
+                "or TELEGRAM_BOT_TOKEN for Telegram."
+        );
+        return false;
+    }
+
     // Check Discord variables if using Discord
-    if (!DISCORD_TOKEN) missingVars.push("DISCORD_TOKEN");
-    if (!DISCORD_CLIENT_ID) missingVars.push("DISCORD_CLIENT_ID");
+    if (DISCORD_ENABLED) {
+        if (!DISCORD_TOKEN) missingVars.push("DISCORD_TOKEN");
+        if (!DISCORD_CLIENT_ID) missingVars.push("DISCORD_CLIENT_ID");
+    }
 
     // Check Telegram variables if using Telegram
-    if (!TELEGRAM_BOT_TOKEN) missingVars.push("TELEGRAM_BOT_TOKEN");
+    if (TELEGRAM_ENABLED && !TELEGRAM_BOT_TOKEN) missingVars.push("TELEGRAM_BOT_TOKEN");
 
     // Check API endpoints
     // We don't check these since they have default values
     // But we log a warning if they're missing from the environment
     if (!process.env.ARTIST_ENDPOINT) {
-        console.warn("ARTIST_ENDPOINT not set in environment, using default");
+        logger.warn("ARTIST_ENDPOINT not set in environment, using default");
     }
     if (!process.env.NFT_ENDPOINT) {
-        console.warn("NFT_ENDPOINT not set in environment, using default");
+        logger.warn("NFT_ENDPOINT not set in environment, using default");
+    }
+
+    if (!["debug", "info", "warn", "error"].includes(LOG_LEVEL)) {
+        logger.error(`Invalid LOG_LEVEL "${LOG_LEVEL}". Use debug, info, warn or error.`);
+        return false;
+    }
+
+    if (!["pretty", "json"].includes(LOG_FORMAT)) {
+        logger.error(`Invalid LOG_FORMAT "${LOG_FORMAT}". Use pretty or json.`);
+        return false;
+    }
+
+    if (!["json", "sqlite"].includes(STORAGE_BACKEND)) {
+        logger.error(`Invalid STORAGE_BACKEND "${STORAGE_BACKEND}". Use json or sqlite.`);
+        return false;
+    }
+
+    if (!["skip", "once", "all"].includes(CATCH_UP_POLICY)) {
+        logger.error(`Invalid CATCH_UP_POLICY "${CATCH_UP_POLICY}". Use skip, once or all.`);
+        return false;
+    }
+
+    if (HTTP_ENABLED) {
+        if (!ADMIN_API_TOKEN) missingVars.push("ADMIN_API_TOKEN");
+        if (!Number.isInteger(HTTP_PORT) || HTTP_PORT < 1 || HTTP_PORT > 65535) {
+            logger.error(`Invalid HTTP_PORT "${process.env.HTTP_PORT}". Use a port number from 1 to 65535.`);
+            return false;
+        }
+    }
+
+    if (MONITORING_ENABLED) {
+        if (!Number.isInteger(MONITORING_PORT) || MONITORING_PORT < 1 || MONITORING_PORT > 65535) {
+            logger.error(
+                `Invalid MONITORING_PORT "${process.env.MONITORING_PORT}". Use a port number from 1 to 65535.`
+            );
+            return false;
+        }
+        if (HTTP_ENABLED && MONITORING_PORT === HTTP_PORT) {
+            logger.error(
+                "MONITORING_PORT must differ from HTTP_PORT; the admin API and monitoring are separate servers"
+            );
+            return false;
+        }
+    }
+
+    if (METRICS_ENABLED && !MONITORING_ENABLED) {
+        logger.warn("METRICS_ENABLED is set but MONITORING_ENABLED is not, so /metrics won't be served");
     }
 
     if (missingVars.length > 0) {
-        console.error("Missing required environment variables:", missingVars.join(", "));
+        logger.error("Missing required environment variables", { missing: missingVars });
         return false;
     }
 
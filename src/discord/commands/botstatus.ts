@@ -0,0 +1,30 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { HealthService } from "../../services/health";
+
+// Hidden from members without Manage Server; the handler checks again in case server settings override that
+export const botStatusCommand = new SlashCommandBuilder()
+    .setName("botstatus")
+    .setDescription("Show whether the bot and its services are healthy (admins only)")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild);
+
+/**
+ * Handle the /botstatus command
+ * @param interaction The command interaction
+ * @param healthService The health service, if it has been set up
+ */
+export async function handleBotStatus(interaction: ChatInputCommandInteraction, healthService?: HealthService) {
+    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+        await interaction.reply({ content: "Only server admins can check the bot status.", ephemeral: true });
+        return;
+    }
+
+    if (!healthService) {
+        await interaction.reply({ content: "Health reporting is not available yet.", ephemeral: true });
+        return;
+    }
+
+    await interaction.reply({
+        content: "```\n" + healthService.formatReport() + "\n```",
+        ephemeral: true,
+    });
+}
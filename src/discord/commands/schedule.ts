@@ -1,4 +1,5 @@
 import {
+    AutocompleteInteraction,
     SlashCommandBuilder,
     ChatInputCommandInteraction,
     PermissionFlagsBits,
@@ -9,11 +10,33 @@ import {
 } from "discord.js";
 import { ScheduleManager } from "../../utils/schedule-manager";
 import { SchedulerService } from "../../services/scheduler";
-import { FetchType } from "../../types";
+import { CatchUpPolicy, ContentMix, FetchType, ScheduleConfig, ScheduleRun, ScheduleTarget } from "../../types";
+import { describeCatchUp, isValidCron, isValidTimezone } from "../../utils/cron";
+import { describeFilters, parseFilters } from "../../utils/filters";
+import { describeContent, parseContentMix } from "../../utils/content-mix";
+import { logger } from "../../utils/logger";
+import { getTarget, hasTarget, withoutTarget, withTarget } from "../../utils/targets";
 
 // Get the singleton instance of the schedule manager
 const scheduleManager = ScheduleManager.getInstance();
 
+// Number of recent runs shown by /schedule status
+const STATUS_RUN_COUNT = 5;
+
+// Discord accepts at most 25 autocomplete choices
+const AUTOCOMPLETE_LIMIT = 25;
+
+/**
+ * Logger carrying the guild and channel a command was used in
+ */
+function commandLogger(interaction: ChatInputCommandInteraction) {
+    return logger.child({
+        platform: "discord",
+        guildId: interaction.guildId ?? undefined,
+        channelId: interaction.channelId,
+    });
+}
+
 // Build the command using SlashCommandBuilder
 // Export this as 'data' for Discord.js to recognize it
 export const data = new SlashCommandBuilder()
@@ -28,7 +51,11 @@ export const data = new SlashCommandBuilder()
                     .setName("type")
                     .setDescription("The type of content to schedule")
                     .setRequired(true)
-                    .addChoices({ name: "Random Artist", value: "artist" }, { name: "Random NFT", value: "nft" })
+                    .addChoices(
+                        { name: "Random Artist", value: "artist" },
+                        { name: "Random NFT", value: "nft" },
+                        { name: "Mixed (set the mix option)", value: "mix" }
+                    )
             )
             .addStringOption((option) =>
                 option
@@ -46,9 +73,55 @@ export const data = new SlashCommandBuilder()
             .addStringOption((option) =>
                 option.setName("cron").setDescription("Custom cron expression (overrides frequency)").setRequired(false)
             )
+            .addStringOption((option) =>
+                option
+                    .setName("mix")
+                    .setDescription('Mixed types: "nft,artist" rotates in order, "nft:70,artist:30" picks by weight')
+                    .setRequired(false)
+            )
             .addStringOption((option) =>
                 option.setName("name").setDescription("A name for this schedule (optional)").setRequired(false)
             )
+            .addStringOption((option) =>
+                option
+                    .setName("timezone")
+                    .setDescription("Time zone for the schedule, e.g. Europe/Berlin (defaults to server time)")
+                    .setRequired(false)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("catchup")
+                    .setDescription("What to do about posts missed while the bot was offline")
+                    .setRequired(false)
+                    .addChoices(
+                        { name: "Skip missed posts", value: "skip" },
+                        { name: "Post once", value: "once" },
+                        { name: "Post all (capped)", value: "all" }
+                    )
+            )
+            .addNumberOption((option) =>
+                option.setName("min_price").setDescription("Only NFTs listed at or above this price (ꜩ)").setMinValue(0)
+            )
+            .addNumberOption((option) =>
+                option.setName("max_price").setDescription("Only NFTs listed at or below this price (ꜩ)").setMinValue(0)
+            )
+            .addStringOption((option) =>
+                option.setName("media").setDescription("Allowed media types, comma-separated (e.g. image,video/mp4)")
+            )
+            .addStringOption((option) =>
+                option.setName("collections").setDescription("Only these collection contracts, comma-separated")
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("exclude_collections")
+                    .setDescription("Never these collection contracts, comma-separated")
+            )
+            .addStringOption((option) =>
+                option.setName("creators").setDescription("Only these creator addresses, comma-separated")
+            )
+            .addStringOption((option) =>
+                option.setName("exclude_creators").setDescription("Never these creator addresses, comma-separated")
+            )
     )
     .addSubcommand((subcommand) => subcommand.setName("list").setDescription("List all schedules for this channel"))
     .addSubcommand((subcommand) =>
@@ -63,6 +136,61 @@ export const data = new SlashCommandBuilder()
                     .setAutocomplete(true)
             )
     )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("edit")
+            .setDescription("Change an existing schedule")
+            .addStringOption((option) =>
+                option
+                    .setName("id")
+                    .setDescription("The ID of the schedule to edit")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("type")
+                    .setDescription("The type of content to post")
+                    .setRequired(false)
+                    .addChoices(
+                        { name: "Random Artist", value: "artist" },
+                        { name: "Random NFT", value: "nft" },
+                        { name: "Mixed (set the mix option)", value: "mix" }
+                    )
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("frequency")
+                    .setDescription("How often to post (preset options)")
+                    .setRequired(false)
+                    .addChoices(
+                        { name: "Hourly", value: "0 * * * *" },
+                        { name: "Every 6 hours", value: "0 */6 * * *" },
+                        { name: "Every 12 hours", value: "0 */12 * * *" },
+                        { name: "Daily", value: "0 12 * * *" },
+                        { name: "Weekly", value: "0 12 * * 1" }
+                    )
+            )
+            .addStringOption((option) =>
+                option.setName("cron").setDescription("Custom cron expression (overrides frequency)").setRequired(false)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("mix")
+                    .setDescription('Mixed types: "nft,artist" rotates in order, "nft:70,artist:30" picks by weight')
+                    .setRequired(false)
+            )
+            .addStringOption((option) =>
+                option.setName("name").setDescription("A new name for this schedule").setRequired(false)
+            )
+            .addChannelOption((option) =>
+                option
+                    .setName("channel")
+                    .setDescription("Move the schedule to another text channel")
+                    .setRequired(false)
+                    .addChannelTypes(ChannelType.GuildText)
+            )
+    )
     .addSubcommand((subcommand) =>
         subcommand
             .setName("pause")
@@ -86,6 +214,72 @@ export const data = new SlashCommandBuilder()
                     .setRequired(true)
                     .setAutocomplete(true)
             )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("run")
+            .setDescription("Post from a schedule right now to see what it looks like")
+            .addStringOption((option) =>
+                option
+                    .setName("id")
+                    .setDescription("The ID of the schedule to run")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("link")
+            .setDescription("Get a one-time code to also post a schedule to a Telegram chat")
+            .addStringOption((option) =>
+                option
+                    .setName("id")
+                    .setDescription("The ID of the schedule to link")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("unlink")
+            .setDescription("Stop posting a schedule to its linked Telegram chat")
+            .addStringOption((option) =>
+                option
+                    .setName("id")
+                    .setDescription("The ID of the schedule to unlink")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("permissions")
+            .setDescription("View or change who can create and manage schedules on this server (admins only)")
+            .addBooleanOption((option) =>
+                option.setName("members_can_create").setDescription("Whether every member may create schedules")
+            )
+            .addRoleOption((option) => option.setName("add_creator").setDescription("Allow a role to create schedules"))
+            .addRoleOption((option) =>
+                option.setName("remove_creator").setDescription("Stop a role from creating schedules")
+            )
+            .addRoleOption((option) =>
+                option.setName("add_manager").setDescription("Allow a role to manage everyone's schedules")
+            )
+            .addRoleOption((option) =>
+                option.setName("remove_manager").setDescription("Stop a role from managing everyone's schedules")
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("status")
+            .setDescription("Show recent runs and the next post time of a schedule")
+            .addStringOption((option) =>
+                option
+                    .setName("id")
+                    .setDescription("The ID of the schedule to check")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
     );
 
 export async function execute(interaction: ChatInputCommandInteraction, schedulerService: SchedulerService) {
@@ -103,22 +297,103 @@ export async function execute(interaction: ChatInputCommandInteraction, schedule
             await handleCreateSchedule(interaction, channel, schedulerService);
             break;
         case "list":
-            await handleListSchedules(interaction, channel);
+            await handleListSchedules(interaction, channel, schedulerService);
             break;
         case "delete":
             await handleDeleteSchedule(interaction, channel, schedulerService);
             break;
+        case "edit":
+            await handleEditSchedule(interaction, channel, schedulerService);
+            break;
         case "pause":
             await handlePauseSchedule(interaction, channel, schedulerService);
             break;
         case "resume":
             await handleResumeSchedule(interaction, channel, schedulerService);
             break;
+        case "run":
+            await handleRunSchedule(interaction, channel, schedulerService);
+            break;
+        case "link":
+            await handleLinkSchedule(interaction, channel, schedulerService);
+            break;
+        case "unlink":
+            await handleUnlinkSchedule(interaction, channel, schedulerService);
+            break;
+        case "permissions":
+            await handlePermissions(interaction, channel, schedulerService);
+            break;
+        case "status":
+            await handleScheduleStatus(interaction, channel, schedulerService);
+            break;
         default:
             await interaction.reply({ content: "Unknown subcommand.", ephemeral: true });
     }
 }
 
+/**
+ * Answer autocomplete requests for schedule IDs
+ * Suggests this channel's schedules that the subcommand applies to and the user may act on
+ */
+export async function autocomplete(interaction: AutocompleteInteraction, schedulerService: SchedulerService) {
+    const subcommand = interaction.options.getSubcommand();
+    const query = interaction.options.getFocused().toLowerCase();
+
+    if (!interaction.channelId) {
+        await interaction.respond([]);
+        return;
+    }
+
+    // Every suggestion posts to this channel, so admins of its server can manage all of them
+    const isAdmin =
+        subcommand !== "status" &&
+        (await schedulerService.isTargetAdmin(interaction.user.id, {
+            platform: "discord",
+            target: interaction.channelId,
+            scope: interaction.guildId || undefined,
+        }));
+
+    const schedules = scheduleManager
+        .getTargetSchedules("discord", interaction.channelId, interaction.guildId || undefined)
+        .filter((schedule) => {
+            switch (subcommand) {
+                case "pause":
+                    return schedule.enabled;
+                case "resume":
+                    return !schedule.enabled;
+                case "link":
+                    return !getTarget(schedule, "telegram");
+                case "unlink":
+                    return !!getTarget(schedule, "telegram");
+                default:
+                    return true;
+            }
+        })
+        .filter(
+            (schedule) =>
+                // Anyone can check a schedule's status; changing one needs permission
+                subcommand === "status" ||
+                isAdmin ||
+                scheduleManager.canUserManageSchedule(
+                    schedule.id,
+                    "discord",
+                    interaction.user.id,
+                    getRoleIds(interaction)
+                )
+        )
+        .filter(
+            (schedule) =>
+                !query || schedule.name.toLowerCase().includes(query) || schedule.id.toLowerCase().includes(query)
+        );
+
+    await interaction.respond(
+        schedules.slice(0, AUTOCOMPLETE_LIMIT).map((schedule) => {
+            const label = `${schedule.name} (${schedule.enabled ? "active" : "paused"})`;
+            return { name: label.length > 100 ? label.substring(0, 97) + "..." : label, value: schedule.id };
+        })
+    );
+}
+
 async function handleCreateSchedule(
     interaction: ChatInputCommandInteraction,
     channel: TextChannel,
@@ -126,42 +401,88 @@ async function handleCreateSchedule(
 ) {
     await interaction.deferReply();
 
-    const fetchType = interaction.options.getString("type") as FetchType;
+    // Check the server's policy on who may create schedules
+    const canCreate = await schedulerService.canUserCreateSchedule(
+        interaction.user.id,
+        channelTarget(channel),
+        getRoleIds(interaction)
+    );
+
+    if (!canCreate) {
+        await interaction.editReply("You don't have permission to create schedules on this server.");
+        return;
+    }
+
+    const type = interaction.options.getString("type", true);
+    const mixInput = interaction.options.getString("mix");
     const presetFrequency = interaction.options.getString("frequency");
     const customCron = interaction.options.getString("cron");
     const customName = interaction.options.getString("name");
+    const timezone = interaction.options.getString("timezone") || undefined;
+    const catchUpPolicy = interaction.options.getString("catchup") as CatchUpPolicy | null;
 
     const cronExpression = customCron || presetFrequency || "0 12 * * *"; // Default to daily at noon
 
     // Validate the cron expression
-    let isValidCron = true;
-    try {
-        require("node-cron").validate(cronExpression);
-    } catch (error) {
-        isValidCron = false;
+    if (!isValidCron(cronExpression)) {
+        await interaction.editReply("Invalid cron expression. Please provide a valid cron expression.");
+        return;
     }
 
-    if (!isValidCron) {
-        await interaction.editReply("Invalid cron expression. Please provide a valid cron expression.");
+    // A mix overrides the single content type
+    let fetchType = type as FetchType;
+    let mix: ContentMix | undefined;
+    if (mixInput) {
+        const parsed = parseContentMix(mixInput);
+        if (!parsed.mix) {
+            await interaction.editReply(`Invalid mix: ${parsed.error}`);
+            return;
+        }
+        mix = parsed.mix;
+        fetchType = mix.entries[0].type;
+    } else if (type === "mix") {
+        await interaction.editReply('Please set the mix option, e.g. "nft,artist" or "nft:70,artist:30".');
+        return;
+    }
+
+    // Validate the content filters
+    const { filters, error: filterError } = parseFilters({
+        minPrice: interaction.options.getNumber("min_price"),
+        maxPrice: interaction.options.getNumber("max_price"),
+        media: interaction.options.getString("media"),
+        collections: interaction.options.getString("collections"),
+        excludeCollections: interaction.options.getString("exclude_collections"),
+        creators: interaction.options.getString("creators"),
+        excludeCreators: interaction.options.getString("exclude_creators"),
+    });
+
+    if (filterError) {
+        await interaction.editReply(`Invalid filters: ${filterError}`);
+        return;
+    }
+
+    // Validate the time zone
+    if (timezone && !isValidTimezone(timezone)) {
+        await interaction.editReply(
+            `Invalid time zone "${timezone}". Please use an IANA time zone name like "Europe/Berlin" or "America/New_York".`
+        );
         return;
     }
 
     // Generate a name if not provided
-    const defaultNameMap: { [key in FetchType]: string } = {
-        artist: "Random Artist",
-        nft: "Random NFT",
-    };
-    const name = customName || `${defaultNameMap[fetchType]} (${channel.name})`;
+    const name = customName || `${mix ? "Mixed Content" : describeContent({ fetchType })} (${channel.name})`;
 
     try {
         // Create the schedule
         const schedule = await scheduleManager.createUserSchedule({
             name,
             fetchType,
+            mix,
             cronExpression,
-            platform: "discord",
-            channelId: channel.id,
-            guildId: channel.guildId,
+            timezone,
+            catchUp: catchUpPolicy ? { policy: catchUpPolicy } : undefined,
+            filters,
+            target: channelTarget(channel),
             userId: interaction.user.id,
             username: interaction.user.username,
         });
@@ -176,8 +497,11 @@ async function handleCreateSchedule(
             .setDescription(`A new schedule has been created for this channel.`)
             .addFields(
                 { name: "Name", value: schedule.name },
-                { name: "Type", value: fetchType === "artist" ? "Random Artist" : "Random NFT" },
+                { name: "Type", value: describeContent(schedule) },
                 { name: "Frequency", value: prettyPrintCron(cronExpression) },
+                { name: "Time Zone", value: timezone || "Server time" },
+                { name: "Missed Runs", value: describeCatchUp(schedule.catchUp?.policy) },
+                { name: "Filters", value: describeFilters(schedule.filters) },
                 { name: "ID", value: schedule.id }
             )
             .setFooter({ text: `Created by ${interaction.user.username}` })
@@ -185,16 +509,20 @@ async function handleCreateSchedule(
 
         await interaction.editReply({ embeds: [embed] });
     } catch (error) {
-        console.error("Error creating schedule:", error);
+        commandLogger(interaction).error("Error creating schedule", { error });
         await interaction.editReply("There was an error creating the schedule. Please try again later.");
     }
 }
 
-async function handleListSchedules(interaction: ChatInputCommandInteraction, channel: TextChannel) {
+async function handleListSchedules(
+    interaction: ChatInputCommandInteraction,
+    channel: TextChannel,
+    schedulerService: SchedulerService
+) {
     await interaction.deferReply();
 
     // Get all schedules for this channel
-    const schedules = scheduleManager.getDiscordChannelSchedules(channel.id, channel.guildId);
+    const schedules = scheduleManager.getTargetSchedules("discord", channel.id, channel.guildId);
 
     if (schedules.length === 0) {
         await interaction.editReply("No schedules found for this channel. Create one with `/schedule create`.");
@@ -208,15 +536,21 @@ async function handleListSchedules(interaction: ChatInputCommandInteraction, cha
         .setFooter({ text: `Use /schedule delete to remove a schedule` });
 
     schedules.forEach((schedule, index) => {
-        const status = schedule.enabled ? "✅ Active" : "⏸️ Paused";
+        const status = describeStatus(schedule, schedulerService);
         const creator = schedule.createdBy?.username || "Unknown";
+        const telegram = getTarget(schedule, "telegram");
+        const telegramDisabled = schedulerService.getDisabledPlatforms(schedule).includes("telegram");
 
         embed.addFields({
             name: `${index + 1}. ${schedule.name} (${status})`,
             value: [
                 `**ID:** \`${schedule.id}\``,
-                `**Type:** ${schedule.fetchType === "artist" ? "Random Artist" : "Random NFT"}`,
+                `**Type:** ${describeContent(schedule)}`,
                 `**Schedule:** ${prettyPrintCron(schedule.cronExpression)}`,
+                `**Time zone:** ${schedule.timezone || "Server time"}`,
+                `**Telegram:** ${telegram ? `Linked (${telegram.target})` : "Not linked"}` +
+                    (telegramDisabled ? " - not posted, Telegram isn't enabled for this bot" : ""),
+                `**Filters:** ${describeFilters(schedule.filters)}`,
                 `**Created by:** ${creator}`,
             ].join("\n"),
         });
@@ -237,18 +571,17 @@ async function handleDeleteSchedule(
     // Check if the schedule exists and is for this channel
     const schedule = scheduleManager.getSchedule(scheduleId);
 
-    if (!schedule || schedule.discord?.channelId !== channel.id) {
+    if (!schedule || !hasTarget(schedule, "discord", channel.id)) {
         await interaction.editReply("Schedule not found or not associated with this channel.");
         return;
     }
 
-    // Check permissions (creator or admin)
-    const isAdmin = interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild) || false;
-    const canManage = scheduleManager.canUserManageSchedule(scheduleId, "discord", interaction.user.id, isAdmin);
+    // Check permissions (creator, manager or admin)
+    const canManage = await canManageSchedule(interaction, scheduleId, schedulerService);
 
     if (!canManage) {
         await interaction.editReply(
-            "You don't have permission to delete this schedule. Only the creator or admins can delete it."
+            "You don't have permission to delete this schedule. Only the creator, schedule managers or admins can delete it."
         );
         return;
     }
@@ -262,11 +595,136 @@ async function handleDeleteSchedule(
 
         await interaction.editReply(`Schedule "${schedule.name}" deleted successfully.`);
     } catch (error) {
-        console.error("Error deleting schedule:", error);
+        commandLogger(interaction).error("Error deleting schedule", { scheduleId, error });
         await interaction.editReply("There was an error deleting the schedule. Please try again later.");
     }
 }
 
+async function handleEditSchedule(
+    interaction: ChatInputCommandInteraction,
+    channel: TextChannel,
+    schedulerService: SchedulerService
+) {
+    await interaction.deferReply({ ephemeral: true });
+
+    const scheduleId = interaction.options.getString("id", true);
+
+    // Check if the schedule exists and is for this channel
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    if (!schedule || !hasTarget(schedule, "discord", channel.id)) {
+        await interaction.editReply("Schedule not found or not associated with this channel.");
+        return;
+    }
+
+    // Check permissions (creator, manager or admin)
+    const canManage = await canManageSchedule(interaction, scheduleId, schedulerService);
+
+    if (!canManage) {
+        await interaction.editReply(
+            "You don't have permission to edit this schedule. Only the creator, schedule managers or admins can manage it."
+        );
+        return;
+    }
+
+    const type = interaction.options.getString("type");
+    const mixInput = interaction.options.getString("mix");
+    const presetFrequency = interaction.options.getString("frequency");
+    const customCron = interaction.options.getString("cron");
+    const newName = interaction.options.getString("name");
+    const targetOption = interaction.options.getChannel("channel", false, [ChannelType.GuildText]);
+
+    if (!type && !mixInput && !presetFrequency && !customCron && !newName && !targetOption) {
+        await interaction.editReply(
+            "Nothing to change. Set at least one of type, mix, frequency, cron, name or channel."
+        );
+        return;
+    }
+
+    // Work on a copy so a rejected edit leaves the schedule untouched
+    const updated = { ...schedule };
+    const changes: string[] = [];
+
+    const cronExpression = customCron || presetFrequency;
+    if (cronExpression) {
+        if (!isValidCron(cronExpression)) {
+            await interaction.editReply("Invalid cron expression. Please provide a valid cron expression.");
+            return;
+        }
+        updated.cronExpression = cronExpression;
+        changes.push(`Frequency: ${prettyPrintCron(cronExpression)}`);
+    }
+
+    // A mix overrides the single content type
+    if (mixInput) {
+        const parsed = parseContentMix(mixInput);
+        if (!parsed.mix) {
+            await interaction.editReply(`Invalid mix: ${parsed.error}`);
+            return;
+        }
+        updated.mix = parsed.mix;
+        updated.fetchType = parsed.mix.entries[0].type;
+        changes.push(`Type: ${describeContent(updated)}`);
+    } else if (type === "mix") {
+        await interaction.editReply('Please set the mix option, e.g. "nft,artist" or "nft:70,artist:30".');
+        return;
+    } else if (type) {
+        updated.fetchType = type as FetchType;
+        updated.mix = undefined;
+        changes.push(`Type: ${describeContent(updated)}`);
+    }
+
+    if (newName) {
+        updated.name = newName;
+        changes.push(`Name: ${newName}`);
+    }
+
+    if (targetOption && targetOption.id !== channel.id) {
+        const target = interaction.guild?.channels.cache.get(targetOption.id);
+
+        // Only move posts into channels the user can post in themselves
+        if (!target || !target.permissionsFor(interaction.user)?.has(PermissionFlagsBits.SendMessages)) {
+            await interaction.editReply("You can only move a schedule to a text channel you can post in.");
+            return;
+        }
+
+        // Moving a schedule creates one in the destination, so the server's policy on who may create applies
+        const destination: ScheduleTarget = { platform: "discord", target: target.id, scope: target.guildId };
+        if (
+            !(await schedulerService.canUserCreateSchedule(interaction.user.id, destination, getRoleIds(interaction)))
+        ) {
+            await interaction.editReply("You don't have permission to create schedules in that channel.");
+            return;
+        }
+        updated.targets = withTarget(updated, destination, { platform: "discord", target: channel.id }).targets;
+        changes.push(`Channel: <#${target.id}>`);
+    }
+
+    if (changes.length === 0) {
+        await interaction.editReply(`Schedule "${schedule.name}" already has those settings.`);
+        return;
+    }
+
+    try {
+        await scheduleManager.updateSchedule(updated);
+
+        // Re-register the task so the changes apply without a restart
+        schedulerService.updateSchedule(updated);
+
+        const embed = new EmbedBuilder()
+            .setTitle("Schedule Updated")
+            .setColor("#00ff00")
+            .setDescription(changes.join("\n"))
+            .setFooter({ text: `ID: ${updated.id}` })
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        commandLogger(interaction).error("Error editing schedule", { scheduleId, error });
+        await interaction.editReply("There was an error editing the schedule. Please try again later.");
+    }
+}
+
 async function handlePauseSchedule(
     interaction: ChatInputCommandInteraction,
     channel: TextChannel,
@@ -279,18 +737,17 @@ async function handlePauseSchedule(
     // Check if the schedule exists and is for this channel
     const schedule = scheduleManager.getSchedule(scheduleId);
 
-    if (!schedule || schedule.discord?.channelId !== channel.id) {
+    if (!schedule || !hasTarget(schedule, "discord", channel.id)) {
         await interaction.editReply("Schedule not found or not associated with this channel.");
         return;
     }
 
-    // Check permissions (creator or admin)
-    const isAdmin = interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild) || false;
-    const canManage = scheduleManager.canUserManageSchedule(scheduleId, "discord", interaction.user.id, isAdmin);
+    // Check permissions (creator, manager or admin)
+    const canManage = await canManageSchedule(interaction, scheduleId, schedulerService);
 
     if (!canManage) {
         await interaction.editReply(
-            "You don't have permission to pause this schedule. Only the creator or admins can manage it."
+            "You don't have permission to pause this schedule. Only the creator, schedule managers or admins can manage it."
         );
         return;
     }
@@ -311,7 +768,7 @@ async function handlePauseSchedule(
 
         await interaction.editReply(`Schedule "${schedule.name}" paused successfully.`);
     } catch (error) {
-        console.error("Error pausing schedule:", error);
+        commandLogger(interaction).error("Error pausing schedule", { scheduleId, error });
         await interaction.editReply("There was an error pausing the schedule. Please try again later.");
     }
 }
@@ -328,18 +785,17 @@ async function handleResumeSchedule(
     // Check if the schedule exists and is for this channel
     const schedule = scheduleManager.getSchedule(scheduleId);
 
-    if (!schedule || schedule.discord?.channelId !== channel.id) {
+    if (!schedule || !hasTarget(schedule, "discord", channel.id)) {
         await interaction.editReply("Schedule not found or not associated with this channel.");
         return;
     }
 
-    // Check permissions (creator or admin)
-    const isAdmin = interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild) || false;
-    const canManage = scheduleManager.canUserManageSchedule(scheduleId, "discord", interaction.user.id, isAdmin);
+    // Check permissions (creator, manager or admin)
+    const canManage = await canManageSchedule(interaction, scheduleId, schedulerService);
 
     if (!canManage) {
         await interaction.editReply(
-            "You don't have permission to resume this schedule. Only the creator or admins can manage it."
+            "You don't have permission to resume this schedule. Only the creator, schedule managers or admins can manage it."
         );
         return;
     }
@@ -352,19 +808,326 @@ async function handleResumeSchedule(
 
     try {
         // Update the schedule to enabled
-        schedule.enabled = true;
-        await scheduleManager.updateSchedule(schedule);
+        await scheduleManager.resumeSchedule(schedule.id);
 
         // Add to scheduler service
         schedulerService.addSchedule(schedule);
 
         await interaction.editReply(`Schedule "${schedule.name}" resumed successfully.`);
     } catch (error) {
-        console.error("Error resuming schedule:", error);
+        commandLogger(interaction).error("Error resuming schedule", { scheduleId, error });
         await interaction.editReply("There was an error resuming the schedule. Please try again later.");
     }
 }
 
+async function handleRunSchedule(
+    interaction: ChatInputCommandInteraction,
+    channel: TextChannel,
+    schedulerService: SchedulerService
+) {
+    await interaction.deferReply({ ephemeral: true });
+
+    const scheduleId = interaction.options.getString("id", true);
+
+    // Check if the schedule exists and is for this channel
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    if (!schedule || !hasTarget(schedule, "discord", channel.id)) {
+        await interaction.editReply("Schedule not found or not associated with this channel.");
+        return;
+    }
+
+    // Check permissions (creator, manager or admin)
+    const canManage = await canManageSchedule(interaction, scheduleId, schedulerService);
+
+    if (!canManage) {
+        await interaction.editReply(
+            "You don't have permission to run this schedule. Only the creator, schedule managers or admins can manage it."
+        );
+        return;
+    }
+
+    try {
+        const run = await schedulerService.runSchedule(schedule, { manual: true });
+
+        const embed = new EmbedBuilder()
+            .setTitle(`Ran: ${schedule.name}`)
+            .setColor(run.success ? "#00ff00" : "#ff0000")
+            .addFields(
+                { name: "Type", value: run.fetchType, inline: true },
+                { name: "Item", value: run.itemId ? `\`${run.itemId}\`` : "None", inline: true },
+                {
+                    name: "Delivery",
+                    value:
+                        run.targets.length > 0
+                            ? run.targets
+                                  .map((target) =>
+                                      target.success
+                                          ? `✅ ${target.platform} \`${target.target}\``
+                                          : `❌ ${target.platform} \`${target.target}\` - ${target.error || "unknown error"}`
+                                  )
+                                  .join("\n")
+                            : `❌ ${run.error || "Nothing was sent"}`,
+                }
+            )
+            .setFooter({ text: `ID: ${schedule.id}` })
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        commandLogger(interaction).error("Error running schedule", { scheduleId, error });
+        await interaction.editReply("There was an error running the schedule. Please try again later.");
+    }
+}
+
+async function handleLinkSchedule(
+    interaction: ChatInputCommandInteraction,
+    channel: TextChannel,
+    schedulerService: SchedulerService
+) {
+    await interaction.deferReply({ ephemeral: true });
+
+    const scheduleId = interaction.options.getString("id", true);
+
+    // Check if the schedule exists and is for this channel
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    if (!schedule || !hasTarget(schedule, "discord", channel.id)) {
+        await interaction.editReply("Schedule not found or not associated with this channel.");
+        return;
+    }
+
+    // Linking publishes to another community, so it needs a server admin rather than just the creator
+    if (!(await schedulerService.isTargetAdmin(interaction.user.id, channelTarget(channel)))) {
+        await interaction.editReply("Only server admins can link a schedule to a Telegram chat.");
+        return;
+    }
+
+    if (!schedulerService.getPlatform("telegram")?.capabilities.linkedSchedules) {
+        await interaction.editReply("Telegram isn't enabled for this bot, so schedules can't be linked to a chat.");
+        return;
+    }
+
+    if (getTarget(schedule, "telegram")) {
+        await interaction.editReply(
+            `Schedule "${schedule.name}" is already linked to a Telegram chat. Use \`/schedule unlink\` first.`
+        );
+        return;
+    }
+
+    const { code, expiresAt } = scheduleManager.createLinkCode(schedule.id);
+
+    await interaction.editReply(
+        `To also post "${schedule.name}" to a Telegram chat, have an admin of that chat send:\n` +
+            `\`/schedule_link ${code}\`\n\n` +
+            `The code works once and expires <t:${Math.floor(expiresAt / 1000)}:R>.`
+    );
+}
+
+async function handleUnlinkSchedule(
+    interaction: ChatInputCommandInteraction,
+    channel: TextChannel,
+    schedulerService: SchedulerService
+) {
+    await interaction.deferReply({ ephemeral: true });
+
+    const scheduleId = interaction.options.getString("id", true);
+
+    // Check if the schedule exists and is for this channel
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    if (!schedule || !hasTarget(schedule, "discord", channel.id)) {
+        await interaction.editReply("Schedule not found or not associated with this channel.");
+        return;
+    }
+
+    // Check permissions (creator, manager or admin)
+    const canManage = await canManageSchedule(interaction, scheduleId, schedulerService);
+
+    if (!canManage) {
+        await interaction.editReply(
+            "You don't have permission to unlink this schedule. Only the creator, schedule managers or admins can manage it."
+        );
+        return;
+    }
+
+    if (!getTarget(schedule, "telegram")) {
+        await interaction.editReply(`Schedule "${schedule.name}" is not linked to a Telegram chat.`);
+        return;
+    }
+
+    try {
+        const updated = withoutTarget(schedule, "telegram");
+        await scheduleManager.updateSchedule(updated);
+        schedulerService.updateSchedule(updated);
+
+        await interaction.editReply(`Schedule "${schedule.name}" no longer posts to Telegram.`);
+    } catch (error) {
+        commandLogger(interaction).error("Error unlinking schedule", { scheduleId, error });
+        await interaction.editReply("There was an error unlinking the schedule. Please try again later.");
+    }
+}
+
+async function handlePermissions(
+    interaction: ChatInputCommandInteraction,
+    channel: TextChannel,
+    schedulerService: SchedulerService
+) {
+    await interaction.deferReply({ ephemeral: true });
+
+    if (!(await schedulerService.isTargetAdmin(interaction.user.id, channelTarget(channel)))) {
+        await interaction.editReply("Only server admins can view or change schedule permissions.");
+        return;
+    }
+
+    const policy = scheduleManager.getPolicy("discord", channel.guildId);
+    const membersCanCreate = interaction.options.getBoolean("members_can_create");
+    const addCreator = interaction.options.getRole("add_creator");
+    const removeCreator = interaction.options.getRole("remove_creator");
+    const addManager = interaction.options.getRole("add_manager");
+    const removeManager = interaction.options.getRole("remove_manager");
+
+    const changed = membersCanCreate !== null || !!addCreator || !!removeCreator || !!addManager || !!removeManager;
+
+    if (changed) {
+        if (membersCanCreate !== null) policy.membersCanCreate = membersCanCreate;
+        if (addCreator && !policy.creators.includes(addCreator.id)) policy.creators.push(addCreator.id);
+        if (removeCreator) policy.creators = policy.creators.filter((id) => id !== removeCreator.id);
+        if (addManager && !policy.managers.includes(addManager.id)) policy.managers.push(addManager.id);
+        if (removeManager) policy.managers = policy.managers.filter((id) => id !== removeManager.id);
+
+        try {
+            await scheduleManager.setPolicy(policy);
+        } catch (error) {
+            commandLogger(interaction).error("Error saving schedule permissions", { error });
+            await interaction.editReply("There was an error saving the permissions. Please try again later.");
+            return;
+        }
+    }
+
+    const formatRoles = (roleIds: string[]) =>
+        roleIds.length > 0 ? roleIds.map((id) => `<@&${id}>`).join(", ") : "None";
+
+    const embed = new EmbedBuilder()
+        .setTitle(changed ? "Schedule Permissions Updated" : "Schedule Permissions")
+        .setColor(changed ? "#00ff00" : "#0099ff")
+        .setDescription("Members with the Manage Server permission can always create and manage schedules.")
+        .addFields(
+            { name: "Members Can Create", value: policy.membersCanCreate ? "Yes" : "No", inline: true },
+            { name: "Creator Roles", value: formatRoles(policy.creators), inline: true },
+            { name: "Manager Roles", value: formatRoles(policy.managers), inline: true }
+        )
+        .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+}
+
+async function handleScheduleStatus(
+    interaction: ChatInputCommandInteraction,
+    channel: TextChannel,
+    schedulerService: SchedulerService
+) {
+    await interaction.deferReply({ ephemeral: true });
+
+    const scheduleId = interaction.options.getString("id", true);
+
+    // Check if the schedule exists and is for this channel
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    if (!schedule || !hasTarget(schedule, "discord", channel.id)) {
+        await interaction.editReply("Schedule not found or not associated with this channel.");
+        return;
+    }
+
+    const runs = scheduleManager.getRunHistory(scheduleId, STATUS_RUN_COUNT);
+    const failureStreak = scheduleManager.getFailureStreak(scheduleId);
+    const nextRun = schedulerService.getNextRun(schedule);
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Status: ${schedule.name}`)
+        .setColor(failureStreak > 0 ? "#ff0000" : "#0099ff")
+        .addFields(
+            { name: "Status", value: describeStatus(schedule, schedulerService), inline: true },
+            {
+                name: "Next Post",
+                value: nextRun ? `<t:${Math.floor(nextRun.getTime() / 1000)}:f>` : "Not scheduled",
+                inline: true,
+            },
+            { name: "Failure Streak", value: String(failureStreak), inline: true },
+            {
+                name: `Last ${STATUS_RUN_COUNT} Runs`,
+                value: runs.length > 0 ? runs.map(formatRun).join("\n") : "This schedule has not run yet.",
+            }
+        )
+        .setFooter({ text: `ID: ${schedule.id}` })
+        .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+}
+
+/**
+ * Describe whether a schedule is running, paused or inactive, e.g. because it can't be scheduled
+ */
+function describeStatus(schedule: ScheduleConfig, schedulerService: SchedulerService): string {
+    if (!schedule.enabled) {
+        return "⏸️ Paused";
+    }
+    const inactiveReason = schedulerService.getInactiveReason(schedule);
+    return inactiveReason ? `⚠️ Inactive (${inactiveReason})` : "✅ Active";
+}
+
+/**
+ * The schedule target for a channel
+ */
+function channelTarget(channel: TextChannel): ScheduleTarget {
+    return { platform: "discord", target: channel.id, scope: channel.guildId };
+}
+
+/**
+ * Get the role IDs of the member behind an interaction
+ */
+function getRoleIds(interaction: ChatInputCommandInteraction | AutocompleteInteraction): string[] {
+    const roles = interaction.member?.roles;
+    if (!roles) return [];
+    return Array.isArray(roles) ? roles : [...roles.cache.keys()];
+}
+
+/**
+ * Check whether the user behind an interaction may manage a schedule: its creator, managers and server admins
+ */
+async function canManageSchedule(
+    interaction: ChatInputCommandInteraction,
+    scheduleId: string,
+    schedulerService: SchedulerService
+): Promise<boolean> {
+    const schedule = scheduleManager.getSchedule(scheduleId);
+    if (!schedule) {
+        return false;
+    }
+    return schedulerService.canUserManageSchedule(schedule, "discord", interaction.user.id, getRoleIds(interaction));
+}
+
+/**
+ * Format a schedule run as a single line for the status embed
+ */
+function formatRun(run: ScheduleRun): string {
+    const when = `<t:${Math.floor(run.timestamp / 1000)}:f>`;
+    const item = run.itemId ? ` \`${run.itemId}\`` : "";
+    const manual = run.manual ? " (manual)" : "";
+
+    if (run.error && run.targets.length === 0) {
+        return `❌ ${when}${manual}${item} - ${run.error}`;
+    }
+
+    const targets = run.targets
+        .map((target) =>
+            target.success ? `${target.platform} ✅` : `${target.platform} ❌ (${target.error || "unknown error"})`
+        )
+        .join(", ");
+
+    return `${run.success ? "✅" : "❌"} ${when}${manual}${item} - ${targets}`;
+}
+
 /**
  * Convert a cron expression to a human-readable string
  */
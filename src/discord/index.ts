@@ -7,21 +7,43 @@ import {
     SlashCommandBuilder,
     TextChannel,
     ChannelType,
+    PermissionFlagsBits,
 } from "discord.js";
-import { DISCORD_TOKEN, DISCORD_CLIENT_ID } from "../config";
-import { MessageSender, SchedulerService } from "../services/scheduler";
-import { FetchType } from "../types";
+import { DISCORD_TOKEN, DISCORD_CLIENT_ID, DISCORD_READY_TIMEOUT_MS, DEDUPE_INTERACTIVE } from "../config";
+import { SchedulerService } from "../services/scheduler";
+import { ComponentHealth, FetchType, PostTarget, RichPost, ScheduleTarget } from "../types";
+import { PlatformAdapter, PlatformCapabilities, PlatformInfo } from "../platforms";
 import { ApiService } from "../services/api";
+import { ContentService } from "../services/content";
+import { HealthService } from "../services/health";
+import { renderDiscordMessage } from "../utils/presenter";
+import { commandInvocations } from "../utils/metrics";
+import { botStatusCommand, handleBotStatus } from "./commands/botstatus";
+import { logger } from "../utils/logger";
 
-export class DiscordBot implements MessageSender {
+const log = logger.child({ platform: "discord" });
+
+// Discord channel IDs are snowflakes
+const CHANNEL_ID_PATTERN = /^\d{17,20}$/;
+
+export const DISCORD_PLATFORM: PlatformInfo = { id: "discord", name: "Discord", targetKey: "channelId" };
+
+export class DiscordBot implements PlatformAdapter {
+    readonly id = DISCORD_PLATFORM.id;
+    readonly name = DISCORD_PLATFORM.name;
+    readonly targetKey = DISCORD_PLATFORM.targetKey;
+    readonly capabilities: PlatformCapabilities = { linkedSchedules: false };
     private client: Client;
     private apiService: ApiService;
+    private contentService: ContentService;
     private schedulerService?: SchedulerService;
+    private healthService?: HealthService;
     private ready = false;
     private commands: any[] = [];
 
     constructor(apiService: ApiService) {
         this.apiService = apiService;
+        this.contentService = new ContentService(apiService);
         this.client = new Client({
             intents: [GatewayIntentBits.Guilds],
         });
@@ -37,6 +59,23 @@ export class DiscordBot implements MessageSender {
         this.schedulerService = schedulerService;
     }
 
+    /**
+     * Set the health service for the /botstatus command
+     */
+    setHealthService(healthService: HealthService) {
+        this.healthService = healthService;
+    }
+
+    /**
+     * Report whether the bot is logged in to the Discord gateway
+     */
+    getHealth(): ComponentHealth {
+        if (this.ready && this.client.isReady()) {
+            return { status: "ok", detail: `Logged in as ${this.client.user.tag}` };
+        }
+        return { status: "down", detail: this.ready ? "Disconnected from the gateway" : "Not logged in" };
+    }
+
     /**
      * Set up the bot's slash commands
      */
@@ -51,16 +90,13 @@ export class DiscordBot implements MessageSender {
 
         // Import slash commands directly using import instead of require
         // This fixes issues with ES modules vs CommonJS modules
-        this.commands = [randomArtistCommand.toJSON(), randomNFTCommand.toJSON()];
+        this.commands = [randomArtistCommand.toJSON(), randomNFTCommand.toJSON(), botStatusCommand.toJSON()];
 
         try {
             // Import the schedule command directly from the file path
             const scheduleFile = require("./commands/schedule");
 
-            // Debug what we're actually getting from the file
             if (scheduleFile) {
-                console.log("Schedule command module loaded, checking for data property");
-
                 if (scheduleFile.data) {
                     const scheduleData = scheduleFile.data;
 
@@ -68,23 +104,19 @@ export class DiscordBot implements MessageSender {
                     if (typeof scheduleData.toJSON === "function") {
                         const commandJson = scheduleData.toJSON();
                         this.commands.push(commandJson);
-                        console.log("Schedule command registered successfully");
                     } else {
                         // If it's already in JSON format, ensure it has the required properties
                         this.commands.push(scheduleData);
-                        console.log("Schedule command registered (already in JSON format)");
                     }
-
-                    // Debug log to see what's being registered
-                    console.log("Command structure:", JSON.stringify(this.commands[this.commands.length - 1], null, 2));
+                    log.debug("Schedule command loaded");
                 } else {
-                    console.error("Schedule command module loaded but missing 'data' property");
+                    log.error("Schedule command module loaded but missing 'data' property");
                 }
             } else {
-                console.error("Failed to load schedule command module");
+                log.error("Failed to load schedule command module");
             }
         } catch (error) {
-            console.error("Error setting up schedule command:", error);
+            log.error("Error setting up schedule command", { error });
         }
     }
 
@@ -94,21 +126,45 @@ export class DiscordBot implements MessageSender {
     private setupEvents() {
         // Ready event
         this.client.once(Events.ClientReady, (client) => {
-            console.log(`Discord bot logged in as ${client.user.tag}`);
+            log.info(`Discord bot logged in as ${client.user.tag}`);
             this.ready = true;
         });
 
         // Interaction event (for slash commands)
         this.client.on(Events.InteractionCreate, async (interaction) => {
+            // Autocomplete requests for schedule IDs
+            if (interaction.isAutocomplete()) {
+                if (interaction.commandName === "schedule") {
+                    try {
+                        const { autocomplete } = require("./commands/schedule");
+                        if (this.schedulerService) {
+                            await autocomplete(interaction, this.schedulerService);
+                        } else {
+                            await interaction.respond([]);
+                        }
+                    } catch (error) {
+                        log.error("Error handling Discord autocomplete", { error });
+                    }
+                }
+                return;
+            }
+
             if (!interaction.isCommand()) return;
 
             try {
                 const { commandName } = interaction;
+                const subcommand = interaction.isChatInputCommand() ? interaction.options.getSubcommand(false) : null;
+                commandInvocations.inc({
+                    platform: "discord",
+                    command: subcommand ? `${commandName} ${subcommand}` : commandName,
+                });
 
                 if (commandName === "random-artist") {
                     await this.handleRandomCommand(interaction, "artist");
                 } else if (commandName === "random-nft") {
                     await this.handleRandomCommand(interaction, "nft");
+                } else if (commandName === "botstatus" && interaction.isChatInputCommand()) {
+                    await handleBotStatus(interaction, this.healthService);
                 } else if (commandName === "schedule") {
                     // Import the schedule command handler dynamically
                     const { execute } = require("./commands/schedule");
@@ -123,7 +179,12 @@ export class DiscordBot implements MessageSender {
                     }
                 }
             } catch (error) {
-                console.error("Error handling Discord command:", error);
+                log.error("Error handling Discord command", {
+                    command: interaction.commandName,
+                    guildId: interaction.guildId ?? undefined,
+                    channelId: interaction.channelId,
+                    error,
+                });
 
                 try {
                     await interaction.reply({
@@ -132,7 +193,7 @@ export class DiscordBot implements MessageSender {
                     });
                 } catch (replyError) {
                     // The interaction might have already been replied to or timed out
-                    console.error("Error replying to interaction:", replyError);
+                    log.error("Error replying to interaction", { error: replyError });
                 }
             }
         });
@@ -145,171 +206,32 @@ export class DiscordBot implements MessageSender {
         await interaction.deferReply();
 
         try {
-            let data;
-
-            if (type === "artist") {
-                data = await this.apiService.getRandomArtist();
-                if (data) {
-                    // Create a rich embed for the artist
-                    const embed = {
-                        color: 0x6441a4, // Purple color for artist embeds
-                        title: `🎨 ${data.name}`,
-                        // description: Wallet is now a field, so description can be omitted or left blank
-                        description: undefined,
-                        thumbnail: {
-                            url: "https://rejkt.xyz/logo.png", // Optional: Add your service logo as a thumbnail
-                        },
-                        image: data.imageUrl
-                            ? {
-                                  url: data.imageUrl,
-                              }
-                            : null,
-                        fields: [] as { name: string; value: string; inline: boolean }[],
-                        footer: {
-                            text: "REJKT Bot • Artist Showcase",
-                        },
-                        timestamp: new Date(),
-                    };
-
-                    // Add wallet as a field for artist
-                    if (data.address) {
-                        embed.fields.push({ name: "Wallet", value: data.address, inline: true });
-                    }
-                    // Add links as fields
-                    if (data.website) {
-                        embed.fields.push({
-                            name: "Website",
-                            value: data.website,
-                            inline: true,
-                        });
-                    }
-
-                    if (data.twitter) {
-                        embed.fields.push({
-                            name: "Twitter",
-                            value: data.twitter,
-                            inline: true,
-                        });
-                    }
-
-                    if (data.tzdomain) {
-                        embed.fields.push({
-                            name: "TZ Domain",
-                            value: data.tzdomain,
-                            inline: true,
-                        });
-                    }
-
-                    if (data.telegram) {
-                        embed.fields.push({
-                            name: "Telegram",
-                            value: data.telegram,
-                            inline: true,
-                        });
-                    }
-
-                    // Add bio as a separate field if available (as fallback)
-                    if (data.bio) {
-                        embed.fields.push({
-                            name: "Recent Work",
-                            value: data.bio.length > 500 ? data.bio.substring(0, 500) + "..." : data.bio,
-                            inline: false,
-                        });
-                    }
-
-                    // Create action button using component
-                    const row = {
-                        type: 1, // Action Row
-                        components: [
-                            {
-                                type: 2, // Button
-                                style: 5, // Link button
-                                label: "View on REJKT",
-                                url: data.profileLink || "https://rejkt.xyz",
-                            },
-                        ],
-                    };
-
-                    await interaction.editReply({ embeds: [embed], components: data.profileLink ? [row] : [] });
-                }
-            } else {
-                data = await this.apiService.getRandomNFT();
-                if (data) {
-                    // Create a rich embed for the NFT
-                    const embed = {
-                        color: 0xff5733, // Orange color for NFT embeds
-                        title: `🖼️ ${data.name}`,
-                        description: data.description ? data.description.substring(0, 2000) : undefined,
-                        thumbnail: {
-                            url: "https://objkt.com/favicon.ico", // Optional: Add Objkt logo as a thumbnail
-                        },
-                        image: data.imageUrl
-                            ? {
-                                  url: data.imageUrl,
-                              }
-                            : null,
-                        fields: data.price
-                            ? [
-                                  {
-                                      name: "Price",
-                                      value: data.price,
-                                      inline: true,
-                                  },
-                              ]
-                            : [],
-                        footer: {
-                            text: "REJKT Bot • NFT Showcase",
-                        },
-                        timestamp: new Date(),
-                    };
-
-                    // Add seller information if available
-                    if (data.seller) {
-                        if (data.seller.alias) {
-                            embed.fields.push({ name: "Creator", value: data.seller.alias, inline: true });
-                        }
-                        // Add seller wallet
-                        if (data.seller.address) {
-                            embed.fields.push({ name: "Wallet", value: data.seller.address, inline: true });
-                        }
-                        // Add seller social and website links
-                        if (data.seller.website) {
-                            embed.fields.push({ name: "Website", value: data.seller.website, inline: true });
-                        }
-                        if (data.seller.twitter) {
-                            embed.fields.push({ name: "Twitter", value: data.seller.twitter, inline: true });
-                        }
-                        if (data.seller.tzdomain) {
-                            embed.fields.push({ name: "TZ Domain", value: data.seller.tzdomain, inline: true });
-                        }
-                        if (data.seller.telegram) {
-                            embed.fields.push({ name: "Telegram", value: data.seller.telegram, inline: true });
-                        }
-                    }
-
-                    // Create action button using component
-                    const row = {
-                        type: 1, // Action Row
-                        components: [
-                            {
-                                type: 2, // Button
-                                style: 5, // Link button
-                                label: "View on Objkt",
-                                url: data.referralLink || "https://objkt.com",
-                            },
-                        ],
-                    };
-
-                    await interaction.editReply({ embeds: [embed], components: data.referralLink ? [row] : [] });
-                }
+            // Optionally avoid items recently posted to this channel
+            const target: PostTarget = { platform: "discord", target: interaction.channelId };
+            const item = DEDUPE_INTERACTIVE
+                ? await this.contentService.fetchFreshItem(type, [target])
+                : await this.contentService.fetchItem(type);
+
+            if (!item) {
+                await interaction.editReply(
+                    this.apiService.isAvailable(type)
+                        ? `Failed to fetch ${type} data. Please try again later.`
+                        : "The REJKT service is temporarily unavailable. Please try again in a few minutes."
+                );
+                return;
             }
 
-            if (!data) {
-                await interaction.editReply(`Failed to fetch ${type} data. Please try again later.`);
-                return;
+            await interaction.editReply(renderDiscordMessage(item.post));
+
+            if (DEDUPE_INTERACTIVE) {
+                await this.contentService.recordPosted(target, item);
             }
         } catch (error) {
-            console.error(`Error handling random ${type} command:`, error);
+            log.error(`Error handling random ${type} command`, {
+                guildId: interaction.guildId ?? undefined,
+                channelId: interaction.channelId,
+                error,
+            });
             await interaction.editReply(`There was an error fetching the ${type}. Please try again later.`);
         }
     }
@@ -319,35 +241,50 @@ export class DiscordBot implements MessageSender {
      */
     async registerCommands() {
         try {
-            console.log("Started refreshing Discord slash commands...");
+            log.info("Started refreshing Discord slash commands...");
 
             const rest = new REST({ version: "10" }).setToken(DISCORD_TOKEN);
 
-            // Print out all commands being registered
-            console.log(
-                `Registering ${this.commands.length} commands: ${this.commands.map((cmd) => cmd.name).join(", ")}`
-            );
+            log.debug(`Registering ${this.commands.length} commands`, {
+                commands: this.commands.map((cmd) => cmd.name),
+            });
 
             // Force a complete refresh of all commands
             await rest.put(Routes.applicationCommands(DISCORD_CLIENT_ID), { body: this.commands });
 
-            console.log("Successfully registered Discord slash commands");
+            log.info("Successfully registered Discord slash commands");
         } catch (error) {
-            console.error("Error registering Discord slash commands:", error);
+            log.error("Error registering Discord slash commands", { error });
         }
     }
 
     /**
      * Start the Discord bot
+     * Rejects if the gateway isn't ready within DISCORD_READY_TIMEOUT_MS, so a stalled connection can't hold up the
+     * rest of startup; the client keeps connecting and registers the commands if it becomes ready later
      */
     async start() {
+        // Wait for the ready event so the bot can send messages as soon as start() resolves
+        const ready = new Promise<void>((resolve) => this.client.once(Events.ClientReady, () => resolve()));
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new Error(`Discord wasn't ready within ${DISCORD_READY_TIMEOUT_MS} ms`)),
+                DISCORD_READY_TIMEOUT_MS
+            );
+        });
+
         try {
-            await this.client.login(DISCORD_TOKEN);
-            await this.registerCommands();
+            await Promise.race([this.client.login(DISCORD_TOKEN).then(() => ready), timeout]);
         } catch (error) {
-            console.error("Error starting Discord bot:", error);
+            log.error("Error starting Discord bot", { error });
+            ready.then(() => this.registerCommands());
             throw error;
+        } finally {
+            clearTimeout(timer);
         }
+
+        await this.registerCommands();
     }
 
     /**
@@ -355,40 +292,79 @@ export class DiscordBot implements MessageSender {
      */
     async stop() {
         this.client.destroy();
-        console.log("Discord bot stopped");
+        log.info("Discord bot stopped");
     }
 
     /**
-     * Implement the MessageSender interface to send a message to a Discord channel
+     * Fetch a text-based channel the bot can post to
      */
-    async sendMessage(content: string, channelId: string): Promise<void> {
+    private async getTextChannel(channelId: string): Promise<TextChannel> {
         if (!this.ready) {
-            console.error("Discord bot not ready");
             throw new Error("Discord bot not ready");
         }
 
-        try {
-            const channel = await this.client.channels.fetch(channelId);
+        const channel = await this.client.channels.fetch(channelId);
 
-            // Check if channel exists and is a text-based channel
-            if (!channel) {
-                console.error(`Channel not found: ${channelId}`);
-                throw new Error(`Discord channel not found: ${channelId}`);
-            }
+        // Check if channel exists and is a text-based channel
+        if (!channel) {
+            throw new Error(`Discord channel not found: ${channelId}`);
+        }
+
+        if (
+            channel.type !== ChannelType.GuildText &&
+            channel.type !== ChannelType.DM &&
+            channel.type !== ChannelType.GuildAnnouncement
+        ) {
+            throw new Error(`Discord channel ${channelId} is not a text channel`);
+        }
+
+        // Now TypeScript knows this is a text-based channel that can send messages
+        return channel as TextChannel;
+    }
+
+    /**
+     * Check that a channel exists, is a text channel and belongs to the target's guild
+     */
+    async validateTarget(target: ScheduleTarget): Promise<string | undefined> {
+        if (!CHANNEL_ID_PATTERN.test(target.target)) {
+            return `"${target.target}" is not a Discord channel ID`;
+        }
 
-            if (
-                channel.type !== ChannelType.GuildText &&
-                channel.type !== ChannelType.DM &&
-                channel.type !== ChannelType.GuildAnnouncement
-            ) {
-                console.error(`Channel ${channelId} is not a text channel`);
-                throw new Error(`Discord channel ${channelId} is not a text channel`);
+        try {
+            const channel = await this.getTextChannel(target.target);
+            if (target.scope && channel.guildId !== target.scope) {
+                return `Discord channel ${target.target} is not in server ${target.scope}`;
             }
+            return undefined;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    /**
+     * Check whether a user has the Manage Server permission in the guild of a channel
+     */
+    async isTargetAdmin(userId: string, target: ScheduleTarget): Promise<boolean> {
+        try {
+            const channel = await this.getTextChannel(target.target);
+            const member = await channel.guild.members.fetch(userId);
+            return member.permissions.has(PermissionFlagsBits.ManageGuild);
+        } catch (error) {
+            log.warn("Error checking Discord permissions", { channelId: target.target, error });
+            return false;
+        }
+    }
+
+    /**
+     * Implement the PlatformAdapter interface to send a rich post (embed + link button) to a Discord channel
+     */
+    async sendPost(post: RichPost, channelId: string): Promise<void> {
+        try {
+            const channel = await this.getTextChannel(channelId);
 
-            // Now TypeScript knows this is a text-based channel that can send messages
-            await (channel as TextChannel).send({ content });
+            await channel.send(renderDiscordMessage(post));
         } catch (error) {
-            console.error("Error sending message to Discord:", error);
+            log.error("Error sending post to Discord", { channelId, error });
             throw error; // Re-throw the error so the caller knows the send failed
         }
     }
@@ -0,0 +1,404 @@
+import { SchedulerService } from "../services/scheduler";
+import { ScheduleManager } from "../utils/schedule-manager";
+import { isValidCron, isValidTimezone } from "../utils/cron";
+import { isContentMixInput, parseContentMix } from "../utils/content-mix";
+import { FilterInput, parseFilters } from "../utils/filters";
+import { CatchUpPolicy, FetchType, ScheduleConfig, ScheduleTarget } from "../types";
+import { PlatformRegistry } from "../platforms";
+import { HttpError, HttpRequest, HttpServer } from "./server";
+
+// Get schedule manager instance
+const scheduleManager = ScheduleManager.getInstance();
+
+/**
+ * REST endpoints for managing schedules, all behind the admin token
+ *
+ *   GET    /api/schedules            List schedules
+ *   POST   /api/schedules            Create a schedule
+ *   GET    /api/schedules/:id        Get a schedule
+ *   PATCH  /api/schedules/:id        Update a schedule
+ *   DELETE /api/schedules/:id        Delete a schedule
+ *   POST   /api/schedules/:id/pause  Pause a schedule
+ *   POST   /api/schedules/:id/resume Resume a paused schedule
+ *   POST   /api/schedules/:id/run    Post from a schedule straight away
+ *   GET    /api/platforms            List the platforms and whether they are enabled
+ */
+
+// Fields accepted when creating or updating a schedule
+const SCHEDULE_FIELDS = ["name", "type", "cronExpression", "timezone", "catchUp", "filters", "enabled", "targets"];
+
+// Fields accepted for each entry of targets
+const TARGET_FIELDS = ["platform", "target", "scope"];
+
+// Filter fields accepted, with the same meaning as the chat command options
+const FILTER_FIELDS: (keyof FilterInput)[] = [
+    "minPrice",
+    "maxPrice",
+    "media",
+    "collections",
+    "excludeCollections",
+    "creators",
+    "excludeCreators",
+];
+
+/**
+ * Register the schedule endpoints on the HTTP server
+ * @param server The HTTP server
+ * @param schedulerService The scheduler service, kept in sync with every change
+ * @param platforms The enabled platforms, used to check targets
+ */
+export function registerAdminApi(server: HttpServer, schedulerService: SchedulerService, platforms: PlatformRegistry) {
+    const auth = { auth: true };
+
+    server.route(
+        "GET",
+        "/api/schedules",
+        () => ({
+            body: { schedules: scheduleManager.getAllSchedules().map((s) => serializeSchedule(s, schedulerService)) },
+        }),
+        auth
+    );
+
+    server.route(
+        "GET",
+        "/api/schedules/:id",
+        (request) => ({ body: { schedule: serializeSchedule(findSchedule(request), schedulerService) } }),
+        auth
+    );
+
+    server.route(
+        "POST",
+        "/api/schedules",
+        async (request) => {
+            const input = readScheduleInput(request.body);
+            for (const field of ["name", "type", "cronExpression"]) {
+                if (input[field] === undefined) {
+                    throw invalid(`${field} is required`);
+                }
+            }
+
+            const schedule = await buildSchedule(input, platforms, {
+                id: `api-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+                name: "",
+                cronExpression: "",
+                enabled: true,
+                fetchType: "artist",
+                createdAt: Date.now(),
+                targets: [],
+            });
+
+            await scheduleManager.addSchedule(schedule);
+            if (schedule.enabled) {
+                schedulerService.addSchedule(schedule);
+            }
+
+            return { status: 201, body: { schedule: serializeSchedule(schedule, schedulerService) } };
+        },
+        auth
+    );
+
+    server.route(
+        "PATCH",
+        "/api/schedules/:id",
+        async (request) => {
+            const existing = findSchedule(request);
+            const schedule = await buildSchedule(readScheduleInput(request.body), platforms, { ...existing });
+
+            await scheduleManager.updateSchedule(schedule);
+            schedulerService.updateSchedule(schedule);
+
+            return { body: { schedule: serializeSchedule(schedule, schedulerService) } };
+        },
+        auth
+    );
+
+    server.route(
+        "DELETE",
+        "/api/schedules/:id",
+        async (request) => {
+            const schedule = findSchedule(request);
+
+            schedulerService.removeSchedule(schedule.id);
+            await scheduleManager.deleteSchedule(schedule.id);
+
+            return { status: 204 };
+        },
+        auth
+    );
+
+    server.route(
+        "POST",
+        "/api/schedules/:id/pause",
+        async (request) => {
+            const schedule = findSchedule(request);
+            if (!schedule.enabled) {
+                throw new HttpError(409, "conflict", `Schedule "${schedule.name}" is already paused`);
+            }
+
+            schedule.enabled = false;
+            await scheduleManager.updateSchedule(schedule);
+            schedulerService.removeSchedule(schedule.id);
+
+            return { body: { schedule: serializeSchedule(schedule, schedulerService) } };
+        },
+        auth
+    );
+
+    server.route(
+        "POST",
+        "/api/schedules/:id/resume",
+        async (request) => {
+            const schedule = findSchedule(request);
+            if (schedule.enabled) {
+                throw new HttpError(409, "conflict", `Schedule "${schedule.name}" is already active`);
+            }
+
+            await scheduleManager.resumeSchedule(schedule.id);
+            schedulerService.addSchedule(schedule);
+
+            return { body: { schedule: serializeSchedule(schedule, schedulerService) } };
+        },
+        auth
+    );
+
+    server.route(
+        "POST",
+        "/api/schedules/:id/run",
+        async (request) => {
+            const schedule = findSchedule(request);
+            const run = await schedulerService.runSchedule(schedule, { manual: true });
+
+            return { body: { run } };
+        },
+        auth
+    );
+
+    server.route(
+        "GET",
+        "/api/platforms",
+        () => ({
+            body: {
+                platforms: platforms.known().map(({ id, name }) => ({
+                    id,
+                    name,
+                    enabled: platforms.has(id),
+                    capabilities: platforms.get(id)?.capabilities ?? null,
+                })),
+            },
+        }),
+        auth
+    );
+}
+
+/**
+ * Look up the schedule named in the request path
+ * @throws HttpError 404 when there is no such schedule
+ */
+function findSchedule(request: HttpRequest): ScheduleConfig {
+    const schedule = scheduleManager.getSchedule(request.params.id);
+    if (!schedule) {
+        throw new HttpError(404, "not_found", `Schedule ${request.params.id} not found`);
+    }
+    return schedule;
+}
+
+/**
+ * Add the next run time, and why an enabled schedule isn't running, to a schedule for API responses
+ */
+function serializeSchedule(schedule: ScheduleConfig, schedulerService: SchedulerService) {
+    const nextRun = schedulerService.getNextRun(schedule);
+    return {
+        ...schedule,
+        nextRun: nextRun ? nextRun.toISOString() : null,
+        inactiveReason: schedulerService.getInactiveReason(schedule) ?? null,
+    };
+}
+
+function invalid(message: string): HttpError {
+    return new HttpError(400, "invalid_request", message);
+}
+
+/**
+ * Check that a request body is a JSON object with only known schedule fields
+ */
+function readScheduleInput(body: unknown): Record<string, unknown> {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        throw invalid("The request body must be a JSON object");
+    }
+
+    const unknownFields = Object.keys(body).filter((key) => !SCHEDULE_FIELDS.includes(key));
+    if (unknownFields.length > 0) {
+        throw invalid(`Unknown field(s): ${unknownFields.join(", ")}. Allowed: ${SCHEDULE_FIELDS.join(", ")}`);
+    }
+
+    return body as Record<string, unknown>;
+}
+
+/**
+ * Apply validated input to a schedule, following the same rules as the chat commands
+ * Fields that are absent keep their current value; null clears an optional field
+ * @param input The request body
+ * @param platforms The enabled platforms, used to check targets
+ * @param schedule The schedule to change, modified in place
+ * @returns The changed schedule
+ * @throws HttpError 400 describing the first invalid field
+ */
+async function buildSchedule(
+    input: Record<string, unknown>,
+    platforms: PlatformRegistry,
+    schedule: ScheduleConfig
+): Promise<ScheduleConfig> {
+    if (input.name !== undefined) {
+        if (typeof input.name !== "string" || !input.name.trim()) {
+            throw invalid("name must be a non-empty string");
+        }
+        schedule.name = input.name.trim();
+    }
+
+    if (input.type !== undefined) {
+        const type = typeof input.type === "string" ? input.type.trim().toLowerCase() : "";
+
+        // Either artist, nft or a mix like "nft,artist" / "nft:70,artist:30"
+        if (isContentMixInput(type)) {
+            const parsed = parseContentMix(type);
+            if (!parsed.mix) {
+                throw invalid(`Invalid mix: ${parsed.error}`);
+            }
+            schedule.mix = parsed.mix;
+            schedule.fetchType = parsed.mix.entries[0].type;
+        } else if (type === "artist" || type === "nft") {
+            schedule.mix = undefined;
+            schedule.fetchType = type as FetchType;
+        } else {
+            throw invalid('type must be "artist", "nft" or a mix like "nft,artist" or "nft:70,artist:30"');
+        }
+    }
+
+    if (input.cronExpression !== undefined) {
+        if (typeof input.cronExpression !== "string" || !isValidCron(input.cronExpression.trim())) {
+            throw invalid('cronExpression must be a valid cron expression, e.g. "0 12 * * *"');
+        }
+        schedule.cronExpression = input.cronExpression.trim();
+    }
+
+    if (input.timezone !== undefined) {
+        const timezone = input.timezone;
+        if (timezone !== null && (typeof timezone !== "string" || !isValidTimezone(timezone))) {
+            throw invalid("timezone must be an IANA time zone name like Europe/Berlin, or null for server time");
+        }
+        schedule.timezone = timezone ?? undefined;
+    }
+
+    if (input.catchUp !== undefined) {
+        const catchUp = input.catchUp;
+        if (catchUp !== null && (typeof catchUp !== "string" || !["skip", "once", "all"].includes(catchUp))) {
+            throw invalid('catchUp must be "skip", "once", "all", or null for the default');
+        }
+        schedule.catchUp = catchUp ? { policy: catchUp as CatchUpPolicy } : undefined;
+    }
+
+    if (input.filters !== undefined) {
+        schedule.filters = readFilters(input.filters);
+    }
+
+    if (input.enabled !== undefined) {
+        if (typeof input.enabled !== "boolean") {
+            throw invalid("enabled must be true or false");
+        }
+        schedule.enabled = input.enabled;
+    }
+
+    if (input.targets !== undefined) {
+        schedule.targets = await readTargets(input.targets, platforms);
+    }
+
+    if (schedule.targets.length === 0) {
+        throw invalid("A schedule needs at least one target");
+    }
+
+    return schedule;
+}
+
+/**
+ * Validate targets from a request body
+ * Targets on platforms that aren't enabled are accepted; the schedule is then reported as inactive
+ * @returns The targets, each checked by its platform's adapter when the platform is enabled
+ */
+async function readTargets(value: unknown, platforms: PlatformRegistry): Promise<ScheduleTarget[]> {
+    if (!Array.isArray(value)) {
+        throw invalid('targets must be a list like [{ "platform": "telegram", "target": "-1001234567890" }]');
+    }
+
+    const targets: ScheduleTarget[] = [];
+    for (const entry of value) {
+        if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+            throw invalid("Each target must be an object with a platform and a target");
+        }
+
+        const unknownFields = Object.keys(entry).filter((key) => !TARGET_FIELDS.includes(key));
+        if (unknownFields.length > 0) {
+            throw invalid(`Unknown target field(s): ${unknownFields.join(", ")}. Allowed: ${TARGET_FIELDS.join(", ")}`);
+        }
+        if (!platforms.isKnown(entry.platform)) {
+            const known = platforms.known().map(({ id }) => id);
+            throw invalid(`Each target needs a platform: ${known.join(" or ")}`);
+        }
+        if (typeof entry.target !== "string" || !entry.target) {
+            throw invalid("Each target needs a target: the channel or chat ID");
+        }
+        if (entry.scope !== undefined && typeof entry.scope !== "string") {
+            throw invalid("A target's scope must be a string, e.g. the Discord server ID");
+        }
+        if (targets.some((target) => target.platform === entry.platform && target.target === entry.target)) {
+            throw invalid(`The ${entry.platform} target ${entry.target} is listed more than once`);
+        }
+
+        const target: ScheduleTarget = { platform: entry.platform, target: entry.target, scope: entry.scope };
+        const problem = await platforms.get(target.platform)?.validateTarget(target);
+        if (problem) {
+            throw invalid(`Invalid ${target.platform} target: ${problem}`);
+        }
+        targets.push(target);
+    }
+
+    return targets;
+}
+
+/**
+ * Validate filters from a request body
+ * Takes the same values as the chat command options; lists are comma-separated strings
+ * @returns The filters, or undefined when none were given
+ */
+function readFilters(value: unknown) {
+    if (value === null) {
+        return undefined;
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+        throw invalid("filters must be an object, or null to remove all filters");
+    }
+
+    const unknownFields = Object.keys(value).filter((key) => !FILTER_FIELDS.includes(key as keyof FilterInput));
+    if (unknownFields.length > 0) {
+        throw invalid(`Unknown filter(s): ${unknownFields.join(", ")}. Allowed: ${FILTER_FIELDS.join(", ")}`);
+    }
+
+    const input = value as Record<string, unknown>;
+    for (const field of FILTER_FIELDS) {
+        const fieldValue = input[field];
+        const isPrice = field === "minPrice" || field === "maxPrice";
+        if (
+            fieldValue !== undefined &&
+            fieldValue !== null &&
+            typeof fieldValue !== "string" &&
+            !(isPrice && typeof fieldValue === "number")
+        ) {
+            throw invalid(`filters.${field} must be a ${isPrice ? "number" : "comma-separated string"}`);
+        }
+    }
+
+    const { filters, error } = parseFilters(input as FilterInput);
+    if (error) {
+        throw invalid(`Invalid filters: ${error}`);
+    }
+    return filters;
+}
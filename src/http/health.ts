@@ -0,0 +1,26 @@
+import { HealthService } from "../services/health";
+import { HttpServer } from "./server";
+
+/**
+ * Health endpoints for container orchestrators; they need no token, so register them on the monitoring server
+ *
+ *   GET /health/live   200 while the process is responding
+ *   GET /health/ready  200 when at least one bot can post, 503 otherwise
+ *   GET /health        Full per-component report, with the same status code as /health/ready
+ *
+ * @param server The HTTP server
+ * @param healthService Source of the health report
+ */
+export function registerHealthEndpoints(server: HttpServer, healthService: HealthService) {
+    server.route("GET", "/health/live", () => ({ body: { status: "alive" } }));
+
+    server.route("GET", "/health/ready", () => {
+        const report = healthService.getReport();
+        return { status: report.ready ? 200 : 503, body: { ready: report.ready, status: report.status } };
+    });
+
+    server.route("GET", "/health", () => {
+        const report = healthService.getReport();
+        return { status: report.ready ? 200 : 503, body: report };
+    });
+}
@@ -0,0 +1,14 @@
+import { metrics } from "../utils/metrics";
+import { HttpServer } from "./server";
+
+/**
+ * Serve the metrics registry on /metrics in the Prometheus text format
+ * The endpoint needs no token so scrapers can read it, so register it on the monitoring server, not the admin API
+ * @param server The HTTP server
+ */
+export function registerMetricsEndpoint(server: HttpServer) {
+    server.route("GET", "/metrics", () => ({
+        body: metrics.render(),
+        contentType: "text/plain; version=0.0.4; charset=utf-8",
+    }));
+}
@@ -0,0 +1,266 @@
+import http from "http";
+import { timingSafeEqual } from "crypto";
+import { logger } from "../utils/logger";
+
+/**
+ * Minimal HTTP server with JSON routing for the admin API
+ * Every error response has the same shape: { "error": { "code": "...", "message": "..." } }
+ */
+
+// Largest request body accepted, in bytes
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * An error that maps to an HTTP status and a machine-readable code
+ */
+export class HttpError extends Error {
+    constructor(
+        public status: number,
+        public code: string,
+        message: string
+    ) {
+        super(message);
+        this.name = "HttpError";
+    }
+}
+
+export interface HttpRequest {
+    method: string;
+    path: string;
+    params: Record<string, string>; // Values of :placeholders in the route pattern
+    query: URLSearchParams;
+    headers: http.IncomingHttpHeaders;
+    body: unknown; // Parsed JSON body, undefined when there was none
+}
+
+export interface HttpResponse {
+    status?: number; // Defaults to 200
+    body?: unknown; // Sent as JSON unless contentType is set, in which case it must be a string
+    contentType?: string;
+}
+
+export type HttpHandler = (request: HttpRequest) => Promise<HttpResponse> | HttpResponse;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    keys: string[];
+    handler: HttpHandler;
+    auth: boolean;
+}
+
+/**
+ * HTTP server bound to a single host and port
+ */
+export class HttpServer {
+    private routes: Route[] = [];
+    private server?: http.Server;
+
+    /**
+     * @param host Interface to listen on
+     * @param port Port to listen on
+     * @param adminToken Bearer token required by routes registered with auth
+     */
+    constructor(
+        private host: string,
+        private port: number,
+        private adminToken?: string
+    ) {}
+
+    /**
+     * Register a route
+     * @param method HTTP method
+     * @param path Path pattern; segments starting with ":" match any value and are passed in params
+     * @param handler Handles matching requests
+     * @param options Set auth to require the admin token
+     */
+    route(method: string, path: string, handler: HttpHandler, options: { auth?: boolean } = {}) {
+        const keys: string[] = [];
+        const pattern = path
+            .split("/")
+            .map((segment) => {
+                if (segment.startsWith(":")) {
+                    keys.push(segment.slice(1));
+                    return "([^/]+)";
+                }
+                return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            })
+            .join("/");
+
+        this.routes.push({
+            method: method.toUpperCase(),
+            pattern: new RegExp(`^${pattern}/?$`),
+            keys,
+            handler,
+            auth: !!options.auth,
+        });
+    }
+
+    /**
+     * Start listening
+     */
+    async start(): Promise<void> {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch((error) => {
+                logger.error("Unhandled error in HTTP server", { error });
+                if (!res.headersSent) {
+                    this.send(res, errorResponse(new HttpError(500, "internal_error", "Internal server error")));
+                }
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once("error", reject);
+            this.server!.listen(this.port, this.host, () => {
+                this.server!.off("error", reject);
+                resolve();
+            });
+        });
+
+        logger.info(`HTTP server listening on http://${this.host}:${this.port}`);
+    }
+
+    /**
+     * Stop listening and close open connections
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = undefined;
+        await new Promise<void>((resolve) => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const url = new URL(req.url || "/", "http://localhost");
+        const method = (req.method || "GET").toUpperCase();
+
+        try {
+            const pathMatches = this.routes
+                .map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+                .filter(({ match }) => match !== null);
+
+            if (pathMatches.length === 0) {
+                throw new HttpError(404, "not_found", `No route for ${url.pathname}`);
+            }
+
+            const found = pathMatches.find(({ route }) => route.method === method);
+            if (!found) {
+                res.setHeader("Allow", pathMatches.map(({ route }) => route.method).join(", "));
+                throw new HttpError(405, "method_not_allowed", `${method} is not allowed on ${url.pathname}`);
+            }
+
+            const { route, match } = found;
+            if (route.auth) {
+                this.authorize(req);
+            }
+
+            const params: Record<string, string> = {};
+            route.keys.forEach((key, index) => {
+                params[key] = decodePathSegment(match![index + 1]);
+            });
+
+            const response = await route.handler({
+                method,
+                path: url.pathname,
+                params,
+                query: url.searchParams,
+                headers: req.headers,
+                body: await readBody(req),
+            });
+            this.send(res, response);
+        } catch (error) {
+            if (!(error instanceof HttpError)) {
+                logger.error(`Error handling ${method} ${url.pathname}`, { error });
+            }
+            this.send(res, errorResponse(error));
+        }
+    }
+
+    /**
+     * Check the bearer token of a request
+     */
+    private authorize(req: http.IncomingMessage) {
+        const header = req.headers.authorization || "";
+        const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+
+        if (!this.adminToken) {
+            throw new HttpError(403, "forbidden", "The admin API is disabled because no admin token is configured");
+        }
+
+        const expected = Buffer.from(this.adminToken);
+        const given = Buffer.from(token);
+        if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+            throw new HttpError(401, "unauthorized", "A valid admin token is required");
+        }
+    }
+
+    private send(res: http.ServerResponse, response: HttpResponse) {
+        const status = response.status || 200;
+
+        if (response.body === undefined) {
+            res.writeHead(status).end();
+        } else if (response.contentType) {
+            res.writeHead(status, { "Content-Type": response.contentType }).end(String(response.body));
+        } else {
+            res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(response.body));
+        }
+    }
+}
+
+/**
+ * Decode a percent-encoded path segment
+ * @throws HttpError 400 when the segment isn't valid percent-encoding, e.g. a truncated "%E0%A4%A"
+ */
+function decodePathSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch (error) {
+        throw new HttpError(400, "invalid_path", `The request path has invalid percent-encoding: ${segment}`);
+    }
+}
+
+/**
+ * Build the JSON error response for any thrown value
+ */
+function errorResponse(error: unknown): HttpResponse {
+    const httpError =
+        error instanceof HttpError ? error : new HttpError(500, "internal_error", "Internal server error");
+
+    return {
+        status: httpError.status,
+        body: { error: { code: httpError.code, message: httpError.message } },
+    };
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new HttpError(413, "payload_too_large", `Request bodies are limited to ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString("utf8").trim();
+    if (!text) {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new HttpError(400, "invalid_json", "The request body is not valid JSON");
+    }
+}
@@ -1,91 +1,168 @@
-import { validateConfig } from "./config";
+import {
+    ADMIN_API_TOKEN,
+    DISCORD_ENABLED,
+    HTTP_ENABLED,
+    HTTP_HOST,
+    HTTP_PORT,
+    LOG_SETTINGS,
+    METRICS_ENABLED,
+    MONITORING_ENABLED,
+    MONITORING_HOST,
+    MONITORING_PORT,
+    STORE_HOT_RELOAD,
+    TELEGRAM_ENABLED,
+    validateConfig,
+} from "./config";
 import { ApiService } from "./services/api";
 import { SchedulerService } from "./services/scheduler";
-import { DiscordBot } from "./discord";
-import { TelegramBot } from "./telegram";
+import { HealthService } from "./services/health";
+import { DISCORD_PLATFORM, DiscordBot } from "./discord";
+import { TELEGRAM_PLATFORM, TelegramBot } from "./telegram";
+import { PlatformRegistry } from "./platforms";
 import { ScheduleManager } from "./utils/schedule-manager";
+import { HttpServer } from "./http/server";
+import { registerAdminApi } from "./http/admin-api";
+import { registerMetricsEndpoint } from "./http/metrics";
+import { registerHealthEndpoints } from "./http/health";
+import { configureLogger, logger } from "./utils/logger";
 
 async function main() {
+    configureLogger(LOG_SETTINGS);
+
     // Validate environment variables
     if (!validateConfig()) {
-        console.error("Invalid configuration. Exiting...");
+        logger.error("Invalid configuration. Exiting...");
         process.exit(1);
     }
 
     try {
         // Initialize services
-        console.log("Initializing services...");
+        logger.info("Initializing services...");
         const apiService = new ApiService();
-        const schedulerService = new SchedulerService(apiService);
+        const platforms = new PlatformRegistry([DISCORD_PLATFORM, TELEGRAM_PLATFORM]);
+        const schedulerService = new SchedulerService(apiService, platforms);
         const scheduleManager = ScheduleManager.getInstance();
 
-        // Load existing schedules
-        console.log("Loading saved schedules...");
-        await scheduleManager.loadSchedules();
+        // Load existing schedules; never start with an empty list when the store can't be read
+        logger.info("Loading saved schedules...");
+        try {
+            await scheduleManager.loadSchedules();
+        } catch (error) {
+            logger.error("Could not load schedules. Fix or restore the store before starting the bot", { error });
+            process.exit(1);
+        }
 
-        // Initialize bots
-        console.log("Initializing bots...");
-        const discordBot = new DiscordBot(apiService);
-        const telegramBot = new TelegramBot(apiService);
+        // Initialize the bots for the enabled platforms and register them as the platforms' adapters
+        logger.info("Initializing bots...", { discord: DISCORD_ENABLED, telegram: TELEGRAM_ENABLED });
+        const bots = [
+            DISCORD_ENABLED ? new DiscordBot(apiService) : undefined,
+            TELEGRAM_ENABLED ? new TelegramBot(apiService) : undefined,
+        ].filter((bot) => bot !== undefined);
 
-        // Register bots with scheduler
-        schedulerService.setDiscordSender(discordBot);
-        schedulerService.setTelegramSender(telegramBot);
+        // Report the state of the bots, the API and the scheduler on /health and /botstatus
+        const healthService = new HealthService(apiService, schedulerService, platforms);
 
-        // Set scheduler service in bots for command handling
-        discordBot.setSchedulerService(schedulerService);
-        telegramBot.setSchedulerService(schedulerService);
+        // Give the bots the services their commands need
+        for (const bot of bots) {
+            platforms.register(bot);
+            bot.setSchedulerService(schedulerService);
+            bot.setHealthService(healthService);
+        }
 
         // Get enabled schedules and add them to the scheduler
-        console.log("Activating saved schedules...");
+        logger.info("Activating saved schedules...");
         const enabledSchedules = scheduleManager.getEnabledSchedules();
+        // Work out missed runs before the tasks are added, so none of them is also run by its task
+        const missedRuns = schedulerService.findMissedRuns(enabledSchedules);
         schedulerService.addScheduledTasks(enabledSchedules);
-        console.log(
-            `Activated ${enabledSchedules.length} saved schedules with details:`,
-            enabledSchedules.map((s) => ({
-                id: s.id,
+        logger.info(`Activated ${schedulerService.getActiveTaskCount()} saved schedules`);
+        for (const s of enabledSchedules.filter((schedule) => !schedulerService.getInactiveReason(schedule))) {
+            logger.debug("Activated schedule", {
+                scheduleId: s.id,
                 name: s.name,
                 type: s.fetchType,
                 cron: s.cronExpression,
-                enabled: s.enabled,
-                discord: s.discord?.channelId,
-                telegram: s.telegram?.chatId,
-            }))
-        );
+                targets: s.targets.map((target) => `${target.platform}:${target.target}`),
+            });
+        }
+
+        // Serve health checks, and metrics if enabled, before the bots start so probes can watch them come up
+        let monitoringServer: HttpServer | undefined;
+        if (MONITORING_ENABLED) {
+            monitoringServer = new HttpServer(MONITORING_HOST, MONITORING_PORT);
+            registerHealthEndpoints(monitoringServer, healthService);
+            if (METRICS_ENABLED) {
+                registerMetricsEndpoint(monitoringServer);
+            }
+            try {
+                await monitoringServer.start();
+            } catch (error) {
+                logger.error("Error starting the monitoring server", { error });
+                monitoringServer = undefined;
+            }
+        }
 
         // Start the bots
-        console.log("Starting bots...");
-        try {
-            await Promise.all([discordBot.start(), telegramBot.start()]);
-        } catch (error) {
-            console.error("Error starting one or more bots:", error);
-            console.log("Continuing with available bots...");
+        logger.info("Starting bots...");
+        const started = await Promise.allSettled(platforms.list().map((platform) => platform.start()));
+        if (started.some((result) => result.status === "rejected")) {
+            const { components } = healthService.getReport();
+            logger.warn(
+                "Continuing with available bots",
+                Object.fromEntries(platforms.list().map((platform) => [platform.id, components[platform.id].status]))
+            );
+        }
+
+        // Run anything missed while the bot was offline, now that the senders are up
+        logger.info("Checking for missed schedule runs...");
+        await schedulerService.catchUpMissedRuns(missedRuns);
+
+        // Pick up hand edits and restored backups without a restart
+        if (STORE_HOT_RELOAD) {
+            scheduleManager.watchStore((changes) => schedulerService.applyScheduleChanges(changes));
+        }
+
+        // Serve the admin API
+        let httpServer: HttpServer | undefined;
+        if (HTTP_ENABLED) {
+            httpServer = new HttpServer(HTTP_HOST, HTTP_PORT, ADMIN_API_TOKEN);
+            registerAdminApi(httpServer, schedulerService, platforms);
+            try {
+                await httpServer.start();
+            } catch (error) {
+                logger.error("Error starting the HTTP server", { error });
+                httpServer = undefined;
+            }
         }
 
         // Remove duplicate schedule loading - this was causing issues
         // as it was loading schedules twice
 
-        console.log("Bot is now running. Press CTRL+C to exit.");
+        logger.info("Bot is now running. Press CTRL+C to exit.");
 
         // Handle graceful shutdown
         process.on("SIGINT", async () => {
-            console.log("Shutting down...");
+            logger.info("Shutting down...");
             schedulerService.stopAllTasks();
 
             try {
-                await Promise.all([discordBot.stop(), telegramBot.stop()]);
+                await Promise.all(platforms.list().map((platform) => platform.stop()));
             } catch (error) {
-                console.error("Error stopping bots:", error);
+                logger.error("Error stopping bots", { error });
             }
 
-            console.log("Gracefully shut down. Goodbye!");
+            await httpServer?.stop();
+            await monitoringServer?.stop();
+            await scheduleManager.close();
+
+            logger.info("Gracefully shut down. Goodbye!");
             process.exit(0);
         });
     } catch (error) {
-        console.error("Error starting the application:", error);
+        logger.error("Error starting the application", { error });
         process.exit(1);
     }
 }
 
 // Start the application
-main().catch(console.error);
+main().catch((error) => logger.error("Unhandled error", { error }));
@@ -0,0 +1,143 @@
+import { ComponentHealth, PlatformId, PostTarget, RichPost, ScheduleTarget } from "../types";
+import { LogContext } from "../utils/logger";
+
+/**
+ * Chat platforms the bot posts to
+ * Each platform module describes its platform with a PlatformInfo, and its bot implements PlatformAdapter.
+ * The registry knows every described platform, and holds the adapters of the ones enabled in this deployment
+ */
+
+// A platform the bot supports, whether or not it is enabled in this deployment
+export interface PlatformInfo {
+    readonly id: PlatformId;
+    readonly name: string; // Display name, e.g. "Discord"
+    readonly targetKey: string; // Log context key for the ID of a channel or chat, e.g. "channelId"
+}
+
+// What a platform supports, for callers that need to treat platforms differently
+export interface PlatformCapabilities {
+    linkedSchedules: boolean; // Schedules created on another platform can be linked to post here too
+}
+
+/**
+ * A connected chat platform that schedules can post to
+ */
+export interface PlatformAdapter extends PlatformInfo {
+    readonly capabilities: PlatformCapabilities;
+
+    /**
+     * Send a rich post to a channel or chat
+     */
+    sendPost(post: RichPost, target: string): Promise<void>;
+
+    /**
+     * Check that a target is something the bot can post to, e.g. before a schedule is saved
+     * @returns A description of the problem, or undefined when the target is usable
+     */
+    validateTarget(target: ScheduleTarget): Promise<string | undefined>;
+
+    /**
+     * Check whether a user administers the server or chat a target belongs to
+     * @param userId The user's ID on this platform
+     * @param target The channel or chat
+     */
+    isTargetAdmin(userId: string, target: ScheduleTarget): Promise<boolean>;
+
+    /**
+     * Report whether the platform is connected
+     */
+    getHealth(): ComponentHealth;
+
+    start(): Promise<void>;
+    stop(): Promise<void>;
+}
+
+/**
+ * The known platforms, and the adapters of the enabled ones, keyed by platform ID
+ */
+export class PlatformRegistry {
+    private platforms: Map<PlatformId, PlatformInfo>;
+    private adapters: Map<PlatformId, PlatformAdapter> = new Map();
+
+    /**
+     * @param platforms Every platform the bot supports, enabled or not
+     */
+    constructor(platforms: PlatformInfo[]) {
+        this.platforms = new Map(platforms.map((platform) => [platform.id, platform]));
+    }
+
+    /**
+     * Add the adapter for an enabled platform
+     * @throws Error when the platform already has an adapter
+     */
+    register(adapter: PlatformAdapter) {
+        if (this.adapters.has(adapter.id)) {
+            throw new Error(`Platform ${adapter.id} is already registered`);
+        }
+        this.platforms.set(adapter.id, adapter);
+        this.adapters.set(adapter.id, adapter);
+    }
+
+    /**
+     * Get a platform's adapter, or undefined when the platform isn't enabled
+     */
+    get(platform: PlatformId): PlatformAdapter | undefined {
+        return this.adapters.get(platform);
+    }
+
+    /**
+     * Check whether a platform is enabled
+     */
+    has(platform: PlatformId): boolean {
+        return this.adapters.has(platform);
+    }
+
+    /**
+     * Get every registered adapter
+     */
+    list(): PlatformAdapter[] {
+        return [...this.adapters.values()];
+    }
+
+    /**
+     * Get every known platform, whether or not it is enabled
+     */
+    known(): PlatformInfo[] {
+        return [...this.platforms.values()];
+    }
+
+    /**
+     * Check whether the bot supports a platform, whether or not it is enabled
+     */
+    isKnown(platform: unknown): platform is PlatformId {
+        return typeof platform === "string" && this.platforms.has(platform);
+    }
+
+    /**
+     * Get a platform's display name, falling back to its ID for platforms the bot doesn't know
+     */
+    getName(platform: PlatformId): string {
+        return this.platforms.get(platform)?.name ?? platform;
+    }
+
+    /**
+     * Log context for a target: its platform plus the channel or chat ID under the key the platform uses
+     */
+    targetContext(target: PostTarget): LogContext {
+        return {
+            platform: target.platform,
+            [this.platforms.get(target.platform)?.targetKey ?? "target"]: target.target,
+        };
+    }
+
+    /**
+     * Check whether a user administers the server or chat a target belongs to, asking the target's adapter
+     * Targets on platforms that aren't enabled have no admins
+     * @param userId The user's ID on the target's platform
+     * @param target The channel or chat
+     */
+    async isTargetAdmin(userId: string, target: ScheduleTarget): Promise<boolean> {
+        const adapter = this.adapters.get(target.platform);
+        return adapter ? adapter.isTargetAdmin(userId, target) : false;
+    }
+}
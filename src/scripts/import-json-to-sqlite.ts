@@ -0,0 +1,59 @@
+import { LOG_SETTINGS, SCHEDULES_FILE, SQLITE_PATH } from "../config";
+import { JsonFileStorage, SqliteStorage } from "../storage";
+import { migrateStore } from "../storage/migrations";
+import { configureLogger } from "../utils/logger";
+
+/**
+ * One-shot import of a schedules.json file into the SQLite store
+ * Usage: npm run import:sqlite -- [json path] [sqlite path] [--force]
+ * The JSON file is left in place; switch STORAGE_BACKEND to sqlite once the import has succeeded
+ */
+async function main() {
+    configureLogger(LOG_SETTINGS);
+
+    const args = process.argv.slice(2);
+    const force = args.includes("--force");
+    const [jsonPath = SCHEDULES_FILE, sqlitePath = SQLITE_PATH] = args.filter((arg) => arg !== "--force");
+
+    const source = new JsonFileStorage(jsonPath);
+    const target = new SqliteStorage(sqlitePath);
+
+    try {
+        const raw = await source.load();
+        if (raw === undefined) {
+            console.error(`Nothing to import: ${jsonPath} does not exist.`);
+            process.exitCode = 1;
+            return;
+        }
+
+        // Bring the file up to the current format so the database only ever holds current data
+        const { store } = migrateStore(raw);
+
+        // Don't overwrite a database that is already in use
+        const existingRaw = await target.load();
+        const existing = existingRaw === undefined ? undefined : migrateStore(existingRaw).store;
+        if (existing && existing.schedules.length > 0 && !force) {
+            console.error(
+                `${sqlitePath} already holds ${existing.schedules.length} schedule(s). Re-run with --force to replace them.`
+            );
+            process.exitCode = 1;
+            return;
+        }
+
+        await target.save(store);
+
+        console.log(
+            `Imported ${store.schedules.length} schedule(s), ${store.runs?.length || 0} run(s), ` +
+                `${store.recentPosts?.length || 0} recent post(s) and ${store.policies?.length || 0} permission ` +
+                `policy(ies) from ${jsonPath} into ${sqlitePath}.`
+        );
+        console.log("Set STORAGE_BACKEND=sqlite to use the imported data.");
+    } finally {
+        await target.close();
+    }
+}
+
+main().catch((error) => {
+    console.error("Import failed:", error);
+    process.exit(1);
+});
@@ -1,4 +1,14 @@
-import { ARTIST_ENDPOINT, NFT_ENDPOINT, API_KEY } from "../config";
+import {
+    ARTIST_ENDPOINT,
+    NFT_ENDPOINT,
+    API_KEY,
+    API_TIMEOUT_MS,
+    API_MAX_RETRIES,
+    API_RETRY_BASE_DELAY_MS,
+    API_CIRCUIT_FAILURE_THRESHOLD,
+    API_CIRCUIT_COOLDOWN_MS,
+    API_CIRCUIT_HALF_OPEN_TRIALS,
+} from "../config";
 import {
     ApiResponse,
     ArtistData,
@@ -8,7 +18,29 @@ import {
     ListingResponse,
     Artist,
     Listing,
+    ContentFilters,
 } from "../types";
+import { CircuitBreaker } from "../utils/circuit-breaker";
+import { filtersToQueryParams } from "../utils/filters";
+import { apiRequestDuration, apiRequests } from "../utils/metrics";
+import { logger } from "../utils/logger";
+
+// Error returned while the circuit breaker is rejecting requests
+export const SERVICE_UNAVAILABLE_ERROR = "Service temporarily unavailable";
+
+/**
+ * Error from a single API request, flagged with whether it is worth retrying
+ * Retryable errors are the transient ones (network errors, timeouts, 5xx and 429) and count against the circuit breaker
+ */
+class ApiRequestError extends Error {
+    constructor(
+        message: string,
+        public readonly retryable: boolean
+    ) {
+        super(message);
+        this.name = "ApiRequestError";
+    }
+}
 
 /**
  * Service to handle API calls to fetch artists and NFT listings
@@ -18,6 +50,25 @@ export class ApiService {
     private readonly ARTIST_ENDPOINT = ARTIST_ENDPOINT;
     private readonly NFT_ENDPOINT = NFT_ENDPOINT;
 
+    // One breaker per endpoint so an outage of one doesn't block the other
+    private readonly circuitBreakers: Record<FetchType, CircuitBreaker> = {
+        artist: new CircuitBreaker(
+            "artist API",
+            API_CIRCUIT_FAILURE_THRESHOLD,
+            API_CIRCUIT_COOLDOWN_MS,
+            API_CIRCUIT_HALF_OPEN_TRIALS
+        ),
+        nft: new CircuitBreaker(
+            "NFT API",
+            API_CIRCUIT_FAILURE_THRESHOLD,
+            API_CIRCUIT_COOLDOWN_MS,
+            API_CIRCUIT_HALF_OPEN_TRIALS
+        ),
+    };
+
+    // When each endpoint last answered successfully, for health reporting
+    private readonly lastSuccessAt: Partial<Record<FetchType, number>> = {};
+
     /**
      * Format price from microtez to tez
      * @param microtez Price in microtez (millionths of a tez)
@@ -44,43 +95,157 @@ export class ApiService {
     }
 
     /**
-     * Fetch data from the API
-     * @param type The type of data to fetch ('artist' or 'nft')
-     * @returns Promise with the API response
+     * Check whether the API for a type is currently accepting requests
+     * Returns false while the circuit breaker is open after repeated failures
+     * @param type The type of data ('artist' or 'nft')
      */
-    async fetchData(type: FetchType): Promise<ApiResponse> {
-        try {
-            const endpoint = type === "artist" ? this.ARTIST_ENDPOINT : this.NFT_ENDPOINT;
+    isAvailable(type: FetchType): boolean {
+        return this.circuitBreakers[type].canRequest();
+    }
 
+    /**
+     * Get when the API for a type last answered successfully
+     * @param type The type of data ('artist' or 'nft')
+     * @returns The time in milliseconds, or undefined when it hasn't succeeded since startup
+     */
+    getLastSuccessAt(type: FetchType): number | undefined {
+        return this.lastSuccessAt[type];
+    }
+
+    /**
+     * Wait before the next retry using exponential backoff with jitter
+     * @param attempt The retry number (0 for the first retry)
+     */
+    private async backoff(attempt: number): Promise<void> {
+        const baseDelay = API_RETRY_BASE_DELAY_MS * 2 ** attempt;
+        const delay = baseDelay / 2 + Math.random() * (baseDelay / 2);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    /**
+     * Make a single request to an endpoint, aborting after the configured timeout
+     * @param endpoint The URL to fetch
+     */
+    private async request(endpoint: string): Promise<unknown> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), API_TIMEOUT_MS);
+
+        try {
             const response = await fetch(endpoint, {
                 headers: {
                     Authorization: `Bearer ${API_KEY}`,
                     "Content-Type": "application/json",
                 },
+                signal: controller.signal,
             });
 
             if (!response.ok) {
-                throw new Error(`API error: ${response.status} ${response.statusText}`);
+                throw new ApiRequestError(
+                    `API error: ${response.status} ${response.statusText}`,
+                    // Retry server errors and rate limiting, not other client errors
+                    response.status >= 500 || response.status === 429
+                );
             }
 
-            const data = await response.json();
-            return { success: true, data };
+            return await response.json();
         } catch (error) {
-            console.error(`Error fetching ${type}:`, error);
-            return {
-                success: false,
-                data: null,
-                error: error instanceof Error ? error.message : "Unknown error",
-            };
+            if (error instanceof Error && error.name === "AbortError") {
+                throw new ApiRequestError(`API request timed out after ${API_TIMEOUT_MS}ms`, true);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    /**
+     * Append query parameters to an endpoint URL
+     * @param endpoint The endpoint URL
+     * @param params Query parameters to add
+     */
+    private buildUrl(endpoint: string, params: Record<string, string>): string {
+        if (Object.keys(params).length === 0) {
+            return endpoint;
+        }
+
+        const url = new URL(endpoint);
+        for (const [key, value] of Object.entries(params)) {
+            url.searchParams.set(key, value);
+        }
+        return url.toString();
+    }
+
+    /**
+     * Fetch data from the API, retrying transient failures
+     * @param type The type of data to fetch ('artist' or 'nft')
+     * @param params Optional query parameters for the endpoint
+     * @returns Promise with the API response
+     */
+    async fetchData(type: FetchType, params: Record<string, string> = {}): Promise<ApiResponse> {
+        const circuitBreaker = this.circuitBreakers[type];
+
+        if (!circuitBreaker.tryRequest()) {
+            apiRequests.inc({ type, outcome: "circuit_open" });
+            return { success: false, data: null, error: SERVICE_UNAVAILABLE_ERROR };
+        }
+
+        const startedAt = Date.now();
+        const recordOutcome = (outcome: "success" | "failure") => {
+            apiRequests.inc({ type, outcome });
+            apiRequestDuration.observe({ type, outcome }, (Date.now() - startedAt) / 1000);
+        };
+
+        const endpoint = this.buildUrl(type === "artist" ? this.ARTIST_ENDPOINT : this.NFT_ENDPOINT, params);
+        let lastError: unknown;
+        let transient = true;
+
+        for (let attempt = 0; attempt <= API_MAX_RETRIES; attempt++) {
+            if (attempt > 0) {
+                await this.backoff(attempt - 1);
+            }
+
+            try {
+                const data = await this.request(endpoint);
+                if (typeof data !== "object" || data === null) {
+                    throw new ApiRequestError("API returned an unexpected response body", false);
+                }
+                circuitBreaker.recordSuccess();
+                this.lastSuccessAt[type] = Date.now();
+                recordOutcome("success");
+                return { success: true, data };
+            } catch (error) {
+                lastError = error;
+                logger.warn(`Error fetching ${type}`, { attempt: attempt + 1, attempts: API_MAX_RETRIES + 1, error });
+
+                // Network errors (TypeError from fetch) and flagged API errors are worth retrying
+                transient = error instanceof ApiRequestError ? error.retryable : true;
+                if (!transient) {
+                    break;
+                }
+            }
+        }
+
+        // Only transient failures say the service is unhealthy; a rejected request (4xx) shouldn't open the circuit
+        if (transient) {
+            circuitBreaker.recordFailure();
+        } else {
+            circuitBreaker.recordIgnored();
         }
+        recordOutcome("failure");
+        return {
+            success: false,
+            data: null,
+            error: lastError instanceof Error ? lastError.message : "Unknown error",
+        };
     }
 
     /**
      * Get a random artist
+     * @param filters Optional content filters, forwarded as query parameters
      * @returns Promise with artist data
      */
-    async getRandomArtist(): Promise<ArtistData | null> {
-        const response = await this.fetchData("artist");
+    async getRandomArtist(filters?: ContentFilters): Promise<ArtistData | null> {
+        const response = await this.fetchData("artist", filtersToQueryParams(filters));
 
         if (response.success && response.data) {
             const artistResponse = response.data as ArtistResponse;
@@ -111,11 +276,12 @@ export class ApiService {
 
     /**
      * Get a random NFT listing
+     * @param filters Optional content filters, forwarded as query parameters
      * @returns Promise with NFT listing data
      */
-    async getRandomNFT(): Promise<NFTListing | null> {
+    async getRandomNFT(filters?: ContentFilters): Promise<NFTListing | null> {
         // Use the dedicated NFT listing endpoint
-        const response = await this.fetchData("nft");
+        const response = await this.fetchData("nft", filtersToQueryParams(filters));
 
         if (response.success && response.data) {
             const listingResponse = response.data as ListingResponse;
@@ -130,6 +296,7 @@ export class ApiService {
                 description: token.description,
                 imageUrl: this.ipfsToHttp(token.display_uri),
                 price: this.formatPrice(listing.price_xtz),
+                priceXtz: listing.price_xtz,
                 referralLink: listingResponse.referralLink, // Add the referral link from the response
                 token: token,
                 seller: seller,
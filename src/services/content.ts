@@ -0,0 +1,109 @@
+import { ApiService } from "./api";
+import { DEDUPE_MAX_ATTEMPTS, DEDUPE_WINDOW_HOURS, FILTER_MAX_ATTEMPTS } from "../config";
+import { ArtistData, ContentFilters, FetchType, NFTListing, PostTarget, RichPost } from "../types";
+import { hasFilters, matchesFilters } from "../utils/filters";
+import { presentArtist, presentNFT } from "../utils/presenter";
+import { ScheduleManager } from "../utils/schedule-manager";
+import { logger } from "../utils/logger";
+
+// A fetched artist or NFT, ready to post
+export interface ContentItem {
+    type: FetchType;
+    key: string; // Artist address or fa_contract:token_id, used to avoid reposts
+    post: RichPost;
+    data: ArtistData | NFTListing;
+}
+
+/**
+ * Service to fetch random content and turn it into posts
+ */
+export class ContentService {
+    private apiService: ApiService;
+    private scheduleManager = ScheduleManager.getInstance();
+
+    constructor(apiService: ApiService) {
+        this.apiService = apiService;
+    }
+
+    /**
+     * Fetch a single random item
+     * @param type The type of content to fetch
+     * @param filters Optional content filters, forwarded to the API
+     */
+    async fetchItem(type: FetchType, filters?: ContentFilters): Promise<ContentItem | null> {
+        if (type === "artist") {
+            const data = await this.apiService.getRandomArtist(filters);
+            return data ? { type, key: data.address, post: presentArtist(data), data } : null;
+        }
+
+        const data = await this.apiService.getRandomNFT(filters);
+        if (!data) {
+            return null;
+        }
+        const key = data.token ? `${data.token.fa_contract}:${data.token.token_id}` : data.id;
+        return { type, key, post: presentNFT(data), data };
+    }
+
+    /**
+     * Fetch a random item that matches the filters and hasn't recently been posted to any of the targets
+     * Redraws a bounded number of times. Items that don't match the filters are never returned;
+     * if only recent duplicates turn up, the last matching one is used anyway.
+     * @param type The type of content to fetch
+     * @param targets The channels or chats the item will be posted to
+     * @param filters Optional content filters
+     */
+    async fetchFreshItem(
+        type: FetchType,
+        targets: PostTarget[],
+        filters?: ContentFilters
+    ): Promise<ContentItem | null> {
+        const dedupe = DEDUPE_WINDOW_HOURS > 0 && targets.length > 0;
+        const filtered = hasFilters(filters);
+
+        if (!dedupe && !filtered) {
+            return this.fetchItem(type);
+        }
+
+        const maxAttempts = Math.max(1, dedupe ? DEDUPE_MAX_ATTEMPTS : 1, filtered ? FILTER_MAX_ATTEMPTS : 1);
+        let fallback: ContentItem | null = null;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const candidate = await this.fetchItem(type, filters);
+            if (!candidate) {
+                break;
+            }
+
+            if (!matchesFilters(type, candidate.data, filters)) {
+                logger.debug(`Drew ${type} outside the filters, redrawing`, { itemKey: candidate.key, attempt });
+                continue;
+            }
+
+            if (!dedupe || !targets.some((target) => this.scheduleManager.wasRecentlyPosted(target, candidate.key))) {
+                return candidate;
+            }
+
+            fallback = candidate;
+            logger.debug(`Drew recently posted ${type}, redrawing`, { itemKey: candidate.key, attempt });
+        }
+
+        if (fallback) {
+            logger.warn(`No fresh ${type} found after ${maxAttempts} attempts, posting a recent one anyway`, {
+                itemKey: fallback.key,
+            });
+        } else if (filtered) {
+            logger.warn(`No ${type} matching the filters found after ${maxAttempts} attempts`);
+        }
+        return fallback;
+    }
+
+    /**
+     * Remember that an item was posted to a target
+     * @param target The channel or chat the item was posted to
+     * @param item The posted item
+     */
+    async recordPosted(target: PostTarget, item: ContentItem): Promise<void> {
+        if (DEDUPE_WINDOW_HOURS > 0) {
+            await this.scheduleManager.recordPost(target, item.key);
+        }
+    }
+}
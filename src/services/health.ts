@@ -0,0 +1,113 @@
+import { ApiService } from "./api";
+import { SchedulerService } from "./scheduler";
+import { ComponentHealth, FetchType, HealthReport, HealthStatus, PlatformId } from "../types";
+import { PlatformRegistry } from "../platforms";
+
+const STATUS_RANK: Record<HealthStatus, number> = { ok: 0, degraded: 1, down: 2 };
+
+// Reported for a platform this deployment doesn't run
+const DISABLED: ComponentHealth = { status: "disabled", detail: "Not enabled in this deployment" };
+
+/**
+ * Format a time for status output, e.g. "2026-10-19 14:05 UTC"
+ */
+function formatTime(timestamp?: number): string {
+    return timestamp ? new Date(timestamp).toISOString().slice(0, 16).replace("T", " ") + " UTC" : "never";
+}
+
+/**
+ * Service that aggregates the state of the bots, the REJKT API and the scheduler
+ */
+export class HealthService {
+    private readonly startedAt = Date.now();
+
+    constructor(
+        private apiService: ApiService,
+        private schedulerService: SchedulerService,
+        private platforms: PlatformRegistry
+    ) {}
+
+    /**
+     * Check every component and work out the overall status
+     */
+    getReport(): HealthReport {
+        const platforms = Object.fromEntries(
+            this.platforms.known().map(({ id }) => [id, this.platforms.get(id)?.getHealth() ?? DISABLED])
+        ) as Record<PlatformId, ComponentHealth>;
+        const api = this.getApiHealth();
+        const scheduler = this.getSchedulerHealth();
+
+        // Posting works as long as one bot is connected; disabled platforms don't count against the status
+        const ready = Object.values(platforms).some((component) => component.status === "ok");
+        const worst = [...Object.values(platforms), api, scheduler].reduce<HealthStatus>(
+            (status, { status: componentStatus }) =>
+                componentStatus !== "disabled" && STATUS_RANK[componentStatus] > STATUS_RANK[status]
+                    ? componentStatus
+                    : status,
+            "ok"
+        );
+
+        return {
+            status: !ready ? "down" : worst === "ok" ? "ok" : "degraded",
+            ready,
+            checkedAt: Date.now(),
+            uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+            activeTasks: this.schedulerService.getActiveTaskCount(),
+            components: { ...platforms, api, scheduler },
+        };
+    }
+
+    /**
+     * Describe a health report as plain text for chat commands
+     * @param report The report to describe, by default a fresh one
+     */
+    formatReport(report: HealthReport = this.getReport()): string {
+        const hours = Math.floor(report.uptimeSeconds / 3600);
+        const minutes = Math.floor((report.uptimeSeconds % 3600) / 60);
+        const line = (label: string, component: ComponentHealth) =>
+            `${label}: ${component.status.toUpperCase()} - ${component.detail}`;
+
+        return [
+            `Status: ${report.status.toUpperCase()}${report.ready ? "" : " (not ready)"}`,
+            ...this.platforms.known().map(({ id, name }) => line(name, report.components[id])),
+            line("REJKT API", report.components.api),
+            line("Scheduler", report.components.scheduler),
+            `Uptime: ${hours}h ${minutes}m`,
+        ].join("\n");
+    }
+
+    /**
+     * The API is down when both endpoints' circuit breakers are open, degraded when one is
+     */
+    private getApiHealth(): ComponentHealth {
+        const types: FetchType[] = ["artist", "nft"];
+        const unavailable = types.filter((type) => !this.apiService.isAvailable(type));
+        const lastSuccesses = types
+            .map((type) => this.apiService.getLastSuccessAt(type))
+            .filter((timestamp): timestamp is number => timestamp !== undefined);
+
+        return {
+            status: unavailable.length === 0 ? "ok" : unavailable.length === types.length ? "down" : "degraded",
+            detail:
+                (unavailable.length > 0 ? `Paused after repeated failures: ${unavailable.join(", ")}. ` : "") +
+                types
+                    .map((type) => `${type} last fetched ${formatTime(this.apiService.getLastSuccessAt(type))}`)
+                    .join(", "),
+            lastSuccessAt: lastSuccesses.length > 0 ? Math.max(...lastSuccesses) : undefined,
+        };
+    }
+
+    private getSchedulerHealth(): ComponentHealth {
+        const lastSentAt = this.schedulerService.getLastSentAt();
+        const inactive = this.schedulerService.getInactiveSchedules().length;
+
+        return {
+            status: "ok",
+            detail:
+                `${this.schedulerService.getActiveTaskCount()} active task(s), ` +
+                (inactive > 0 ? `${inactive} inactive, ` : "") +
+                `last post sent ${formatTime(lastSentAt)}`,
+            lastSuccessAt: lastSentAt,
+        };
+    }
+}
@@ -1,11 +1,27 @@
 import * as cron from "node-cron";
-import { ApiService } from "./api";
-import { FetchType, ScheduleConfig } from "../types";
-
-// We'll implement these interfaces in the appropriate platform modules
-export interface MessageSender {
-    sendMessage(content: string, chatId: string): Promise<void>;
-}
+import { ApiService, SERVICE_UNAVAILABLE_ERROR } from "./api";
+import { ContentService } from "./content";
+import {
+    FetchType,
+    MissedRuns,
+    PlatformId,
+    PostTarget,
+    RichPost,
+    ScheduleChanges,
+    ScheduleConfig,
+    ScheduleRun,
+    ScheduleTarget,
+    TargetResult,
+} from "../types";
+import { ScheduleManager } from "../utils/schedule-manager";
+import { getNextRun, getRunsBetween } from "../utils/cron";
+import { hasFilters } from "../utils/filters";
+import { describeContent, nextMixType } from "../utils/content-mix";
+import { activeScheduledTasks, postsSent, scheduleRuns } from "../utils/metrics";
+import { Logger, logger } from "../utils/logger";
+import { CATCH_UP_MAX_RUNS, CATCH_UP_POLICY } from "../config";
+import { PlatformAdapter, PlatformRegistry } from "../platforms";
+import { getTarget, getTargetScope } from "../utils/targets";
 
 /**
  * Service to handle scheduled tasks
@@ -13,25 +29,16 @@ export interface MessageSender {
 export class SchedulerService {
     private scheduledTasks: Map<string, cron.ScheduledTask> = new Map();
     private apiService: ApiService;
-    private discordSender?: MessageSender;
-    private telegramSender?: MessageSender;
+    private contentService: ContentService;
+    private platforms: PlatformRegistry;
+    private scheduleManager = ScheduleManager.getInstance();
+    private lastSentAt?: number; // Last post delivered to any target, for health reporting
 
-    constructor(apiService: ApiService) {
+    constructor(apiService: ApiService, platforms: PlatformRegistry) {
         this.apiService = apiService;
-    }
-
-    /**
-     * Set the Discord message sender
-     */
-    setDiscordSender(sender: MessageSender) {
-        this.discordSender = sender;
-    }
-
-    /**
-     * Set the Telegram message sender
-     */
-    setTelegramSender(sender: MessageSender) {
-        this.telegramSender = sender;
+        this.platforms = platforms;
+        this.contentService = new ContentService(apiService);
+        activeScheduledTasks.setCollector(() => this.scheduledTasks.size);
     }
 
     /**
@@ -46,7 +53,8 @@ export class SchedulerService {
             this.addSchedule(schedule);
         }
 
-        console.log(`Added ${enabledSchedules.length} scheduled tasks`);
+        const inactive = enabledSchedules.filter((schedule) => !this.scheduledTasks.has(schedule.id)).length;
+        logger.info(`Added ${enabledSchedules.length - inactive} scheduled tasks`, { inactive });
     }
 
     /**
@@ -59,90 +67,362 @@ export class SchedulerService {
             return;
         }
 
-        if (!this.discordSender && !this.telegramSender) {
-            console.error("No message senders configured");
+        const log = logger.child({ scheduleId: schedule.id });
+
+        // Skip if no targets are configured
+        if (schedule.targets.length === 0) {
+            log.warn(`Schedule "${schedule.name}" has no valid targets configured. Skipping.`);
             return;
         }
 
-        // Skip if no Discord or Telegram targets are configured
-        if (
-            (!schedule.discord?.channelId || schedule.discord.channelId === "") &&
-            (!schedule.telegram?.chatId || schedule.telegram.chatId === "")
-        ) {
-            console.warn(`Schedule "${schedule.name}" has no valid targets configured. Skipping.`);
+        // Schedules for platforms this deployment doesn't run stay in the store but aren't registered
+        const reason = this.getPlatformReason(schedule);
+        if (reason) {
+            log.warn(`Schedule "${schedule.name}" is inactive: ${reason}`);
             return;
         }
 
-        // Log the channel info for debugging
-        if (schedule.discord?.channelId) {
-            console.log(`Adding schedule "${schedule.name}" for Discord channel: ${schedule.discord.channelId}`);
+        try {
+            // Explicitly set the task to start immediately
+            const task = cron.schedule(
+                schedule.cronExpression,
+                () => this.runSchedule(schedule),
+                schedule.timezone ? { timezone: schedule.timezone } : undefined
+            );
+
+            this.scheduledTasks.set(schedule.id, task);
+            log.info(`Scheduled task "${schedule.name}"`, {
+                content: describeContent(schedule),
+                cron: schedule.cronExpression,
+                timezone: schedule.timezone || "server time",
+                targets: schedule.targets.map((target) => `${target.platform}:${target.target}`),
+            });
+        } catch (error) {
+            log.error(`Error creating schedule "${schedule.name}"`, { error });
         }
-        if (schedule.telegram?.chatId) {
-            console.log(`Adding schedule "${schedule.name}" for Telegram chat: ${schedule.telegram.chatId}`);
+    }
+
+    /**
+     * Fetch content for a schedule, send it to every configured target and record the run
+     * Used by the cron task, catch-up and manual test runs
+     * @param schedule The schedule configuration
+     * @param options Set manual for runs triggered by a user rather than the schedule itself
+     * @returns The recorded run, including the delivery result for each target
+     */
+    async runSchedule(schedule: ScheduleConfig, options: { manual?: boolean } = {}): Promise<ScheduleRun> {
+        const log = logger.child({ scheduleId: schedule.id });
+        log.info(`Executing ${options.manual ? "manual run of " : ""}scheduled task "${schedule.name}"`);
+
+        const fetchType = await this.pickFetchType(schedule, options.manual);
+        const run: ScheduleRun = {
+            scheduleId: schedule.id,
+            timestamp: Date.now(),
+            fetchType,
+            manual: options.manual || undefined,
+            success: false,
+            targets: [],
+        };
+
+        // Record the run before sending so a crash mid-run doesn't cause a duplicate catch-up post
+        // Manual runs don't count, so they never hide a missed scheduled post
+        if (!options.manual) {
+            await this.scheduleManager.recordRun(schedule.id, run.timestamp);
         }
 
         try {
-            // Explicitly set the task to start immediately
-            const task = cron.schedule(schedule.cronExpression, async () => {
-                console.log(
-                    `⏰ Executing scheduled task "${schedule.name}" (${schedule.id}) at ${new Date().toISOString()}`
-                );
-                try {
-                    let data;
-                    let message = "";
-
-                    // Fetch data based on type
-                    if (schedule.fetchType === "artist") {
-                        data = await this.apiService.getRandomArtist();
-                        if (data) {
-                            message = `🎨 Random Artist: ${data.name}\n`;
-                            if (data.bio) message += `Bio: ${data.bio.substring(0, 200)}...\n`;
-                            if (data.imageUrl) message += `Image: ${data.imageUrl}\n`;
-                            // Add the profileLink as CTA
-                            if (data.profileLink) message += `\nView on REJKT: ${data.profileLink}`;
-                        }
-                    } else {
-                        data = await this.apiService.getRandomNFT();
-                        if (data) {
-                            message = `🖼️ Random NFT: ${data.name}\n`;
-                            if (data.description) message += `Description: ${data.description.substring(0, 200)}...\n`;
-                            if (data.price) message += `Price: ${data.price}\n`;
-                            if (data.imageUrl) message += `Image: ${data.imageUrl}\n`;
-                            // Add the referralLink as main CTA
-                            if (data.referralLink) message += `\nView on Objkt: ${data.referralLink}`;
-                        }
-                    }
+            // Work out where this run posts to before fetching, so duplicates can be avoided per target
+            // Targets on disabled platforms are left out
+            const deliveries: { adapter: PlatformAdapter; target: PostTarget }[] = [];
+            for (const { platform, target } of schedule.targets) {
+                const adapter = this.platforms.get(platform);
+                if (adapter) {
+                    deliveries.push({ adapter, target: { platform, target } });
+                }
+            }
 
-                    if (!data) {
-                        console.error(`Failed to fetch ${schedule.fetchType} data for schedule "${schedule.name}"`);
-                        return;
-                    }
+            const item = await this.contentService.fetchFreshItem(
+                fetchType,
+                deliveries.map((delivery) => delivery.target),
+                schedule.filters
+            );
 
-                    // Send to Discord if channel ID is provided
-                    if (schedule.discord?.channelId && this.discordSender) {
-                        await this.discordSender.sendMessage(message, schedule.discord.channelId);
-                        console.log(`Sent ${schedule.fetchType} to Discord channel ${schedule.discord.channelId}`);
-                    }
+            if (!item) {
+                log.error(`Failed to fetch ${fetchType} data for schedule "${schedule.name}"`);
+                if (!this.apiService.isAvailable(fetchType)) {
+                    run.error = SERVICE_UNAVAILABLE_ERROR;
+                } else if (hasFilters(schedule.filters)) {
+                    run.error = `No ${fetchType} matching the schedule's filters was found`;
+                } else {
+                    run.error = `Failed to fetch ${fetchType} data`;
+                }
+            } else {
+                run.itemId = item.key;
 
-                    // Send to Telegram if chat ID is provided
-                    if (schedule.telegram?.chatId && this.telegramSender) {
-                        await this.telegramSender.sendMessage(message, schedule.telegram.chatId);
-                        console.log(`Sent ${schedule.fetchType} to Telegram chat ${schedule.telegram.chatId}`);
+                for (const { adapter, target } of deliveries) {
+                    const result = await this.deliver(adapter, item.post, target, log);
+                    run.targets.push(result);
+                    if (result.success) {
+                        await this.contentService.recordPosted(target, item);
                     }
-                } catch (error) {
-                    console.error(`Error in scheduled task "${schedule.name}":`, error);
                 }
+
+                if (run.targets.length === 0) {
+                    run.error = "None of this schedule's platforms are enabled";
+                }
+                run.success = run.targets.length > 0 && run.targets.every((target) => target.success);
+            }
+        } catch (error) {
+            log.error(`Error in scheduled task "${schedule.name}"`, { error });
+            run.error = error instanceof Error ? error.message : String(error);
+        }
+
+        await this.scheduleManager.recordExecution(run);
+        scheduleRuns.inc({ schedule_id: schedule.id, result: run.success ? "success" : "failure" });
+        return run;
+    }
+
+    /**
+     * Explain why none of a schedule's targets can be posted to
+     * @returns The reason, or undefined when at least one target's platform is enabled
+     */
+    private getPlatformReason(schedule: ScheduleConfig): string | undefined {
+        const disabled = this.getDisabledPlatforms(schedule);
+        if (schedule.targets.length === 0 || disabled.length < schedule.targets.length) {
+            return undefined;
+        }
+        const names = disabled.map((platform) => this.platforms.getName(platform)).join(" and ");
+        return `${names} ${disabled.length > 1 ? "are" : "is"} not enabled in this deployment`;
+    }
+
+    /**
+     * Work out which content type the next run of a schedule posts
+     * Rotations advance and persist their position so they survive restarts
+     * @param schedule The schedule configuration
+     * @param manual Whether this is a manual run, which shows the next type without using up its turn
+     */
+    private async pickFetchType(schedule: ScheduleConfig, manual?: boolean): Promise<FetchType> {
+        if (!schedule.mix || schedule.mix.entries.length === 0) {
+            return schedule.fetchType;
+        }
+
+        const { type, position } = nextMixType(schedule.mix);
+        if (position !== undefined && !manual) {
+            await this.scheduleManager.setMixPosition(schedule.id, position);
+        }
+        return type;
+    }
+
+    /**
+     * Send a post to a single target, capturing the outcome instead of throwing
+     */
+    private async deliver(
+        adapter: PlatformAdapter,
+        post: RichPost,
+        target: PostTarget,
+        log: Logger
+    ): Promise<TargetResult> {
+        const targetLog = log.child(this.platforms.targetContext(target));
+
+        try {
+            await adapter.sendPost(post, target.target);
+            targetLog.info("Sent post");
+            this.lastSentAt = Date.now();
+            postsSent.inc({ platform: target.platform, result: "success" });
+            return { ...target, success: true };
+        } catch (error) {
+            targetLog.error("Error sending post", { error });
+            postsSent.inc({ platform: target.platform, result: "failure" });
+            return { ...target, success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    /**
+     * Work out the fire times missed while the bot was offline, following each schedule's catch-up policy
+     * Call this before the schedules' tasks are added: the tasks take over every fire time from then on, and a
+     * task's run moves lastRunAt on, so working it out later could post a slot twice or drop older ones
+     * @param schedules Array of schedule configurations
+     * @param now The current time in milliseconds
+     * @returns The schedules with missed runs to catch up
+     */
+    findMissedRuns(schedules: ScheduleConfig[], now = Date.now()): MissedRuns[] {
+        const missed: MissedRuns[] = [];
+
+        for (const schedule of schedules) {
+            // Only catch up schedules that can be registered (enabled, with targets on a running platform)
+            if (!schedule.enabled || schedule.targets.length === 0 || this.getPlatformReason(schedule)) {
+                continue;
+            }
+
+            const policy = schedule.catchUp?.policy || CATCH_UP_POLICY;
+            if (policy === "skip") {
+                continue;
+            }
+
+            const maxRuns = policy === "once" ? 1 : Math.max(1, schedule.catchUp?.maxRuns ?? CATCH_UP_MAX_RUNS);
+            const since = schedule.lastRunAt ?? schedule.createdAt;
+
+            let missedRuns: Date[];
+            try {
+                missedRuns = getRunsBetween(schedule.cronExpression, since, now, schedule.timezone, maxRuns);
+            } catch (error) {
+                logger.error(`Error working out missed runs for schedule "${schedule.name}"`, {
+                    scheduleId: schedule.id,
+                    error,
+                });
+                continue;
+            }
+
+            if (missedRuns.length > 0) {
+                missed.push({ schedule, runs: missedRuns });
+            }
+        }
+
+        return missed;
+    }
+
+    /**
+     * Run the fire times found by findMissedRuns, once the bots are up to send them
+     * @param missed The schedules with missed runs
+     */
+    async catchUpMissedRuns(missed: MissedRuns[]) {
+        for (const { schedule, runs } of missed) {
+            // Skip schedules paused or deleted since, e.g. by a command while the bots were starting
+            if (!this.scheduledTasks.has(schedule.id)) {
+                continue;
+            }
+
+            logger.info(`Catching up ${runs.length} missed run(s) for schedule "${schedule.name}"`, {
+                scheduleId: schedule.id,
+                policy: schedule.catchUp?.policy || CATCH_UP_POLICY,
+                firstMissedAt: runs[0].toISOString(),
             });
 
-            this.scheduledTasks.set(schedule.id, task);
-            console.log(
-                `Scheduled task "${schedule.name}" (${schedule.fetchType}) with cron: ${schedule.cronExpression}`
-            );
+            for (let i = 0; i < runs.length; i++) {
+                await this.runSchedule(schedule);
+            }
+        }
+    }
+
+    /**
+     * Get the next time a schedule will fire, or undefined if it is not active
+     * @param schedule The schedule configuration
+     */
+    getNextRun(schedule: ScheduleConfig): Date | undefined {
+        if (!this.scheduledTasks.has(schedule.id)) {
+            return undefined;
+        }
+
+        try {
+            return getNextRun(schedule.cronExpression, schedule.timezone);
         } catch (error) {
-            console.error(`Error creating schedule "${schedule.name}":`, error);
+            logger.error(`Error working out next run for schedule "${schedule.name}"`, {
+                scheduleId: schedule.id,
+                error,
+            });
+            return undefined;
         }
     }
 
+    /**
+     * Get the platforms a schedule posts to that aren't enabled in this deployment
+     * @param schedule The schedule configuration
+     */
+    getDisabledPlatforms(schedule: ScheduleConfig): PlatformId[] {
+        return schedule.targets.map((target) => target.platform).filter((platform) => !this.platforms.has(platform));
+    }
+
+    /**
+     * Get the adapter of an enabled platform, e.g. to check its capabilities
+     * @returns The adapter, or undefined when the platform isn't enabled
+     */
+    getPlatform(platform: PlatformId): PlatformAdapter | undefined {
+        return this.platforms.get(platform);
+    }
+
+    /**
+     * Check whether a user administers the server or chat a target belongs to, as its platform reports it
+     * @param userId The user's ID on the target's platform
+     * @param target The channel or chat
+     */
+    async isTargetAdmin(userId: string, target: ScheduleTarget): Promise<boolean> {
+        return this.platforms.isTargetAdmin(userId, target);
+    }
+
+    /**
+     * Check whether a user may create schedules that post to a channel or chat
+     * The place's permission policy decides, except that its admins always may
+     * @param userId The user's ID on the target's platform
+     * @param target The channel or chat
+     * @param roleIds The user's role IDs, on platforms with roles
+     */
+    async canUserCreateSchedule(userId: string, target: ScheduleTarget, roleIds: string[] = []): Promise<boolean> {
+        return (
+            this.scheduleManager.canUserCreateSchedule(target.platform, getTargetScope(target), userId, roleIds) ||
+            (await this.isTargetAdmin(userId, target))
+        );
+    }
+
+    /**
+     * Check whether a user may manage a schedule from a platform
+     * Its creator and the managers named in the permission policy may, and so may admins of the schedule's channel or
+     * chat on that platform
+     * @param schedule The schedule configuration
+     * @param platform The platform the user is on
+     * @param userId The user's ID on that platform
+     * @param roleIds The user's role IDs, on platforms with roles
+     */
+    async canUserManageSchedule(
+        schedule: ScheduleConfig,
+        platform: PlatformId,
+        userId: string,
+        roleIds: string[] = []
+    ): Promise<boolean> {
+        if (this.scheduleManager.canUserManageSchedule(schedule.id, platform, userId, roleIds)) {
+            return true;
+        }
+        const target = getTarget(schedule, platform);
+        return target !== undefined && (await this.isTargetAdmin(userId, target));
+    }
+
+    /**
+     * Explain why an enabled schedule has no cron task
+     * @param schedule The schedule configuration
+     * @returns The reason, or undefined when the schedule is running or paused
+     */
+    getInactiveReason(schedule: ScheduleConfig): string | undefined {
+        if (!schedule.enabled || this.scheduledTasks.has(schedule.id)) {
+            return undefined;
+        }
+        if (schedule.targets.length === 0) {
+            return "No targets configured";
+        }
+        return this.getPlatformReason(schedule) || "Could not be scheduled, see the logs";
+    }
+
+    /**
+     * Get the enabled schedules in the store that have no cron task, e.g. because they only post to a disabled platform
+     */
+    getInactiveSchedules(): ScheduleConfig[] {
+        return this.scheduleManager
+            .getEnabledSchedules()
+            .filter((schedule) => this.getInactiveReason(schedule) !== undefined);
+    }
+
+    /**
+     * Get the number of schedules with a registered cron task
+     */
+    getActiveTaskCount(): number {
+        return this.scheduledTasks.size;
+    }
+
+    /**
+     * Get when a scheduled post was last delivered to any target
+     * @returns The time in milliseconds, or undefined when nothing has been sent since startup
+     */
+    getLastSentAt(): number | undefined {
+        return this.lastSentAt;
+    }
+
     /**
      * Update an existing scheduled task
      * @param schedule Updated schedule configuration
@@ -157,6 +437,29 @@ export class SchedulerService {
         }
     }
 
+    /**
+     * Bring the running tasks in line with schedules that changed in the store
+     * @param changes The schedules that were added, removed or updated
+     */
+    applyScheduleChanges(changes: ScheduleChanges) {
+        for (const schedule of changes.removed) {
+            this.removeSchedule(schedule.id);
+        }
+        for (const schedule of changes.updated) {
+            this.updateSchedule(schedule);
+        }
+        for (const schedule of changes.added) {
+            if (schedule.enabled) {
+                this.addSchedule(schedule);
+            }
+        }
+
+        logger.info(
+            `Reconciled scheduled tasks: ${changes.added.length} added, ${changes.updated.length} updated, ` +
+                `${changes.removed.length} removed`
+        );
+    }
+
     /**
      * Remove a scheduled task by ID
      * @param scheduleId The ID of the schedule to remove
@@ -166,7 +469,7 @@ export class SchedulerService {
         if (task) {
             task.stop();
             this.scheduledTasks.delete(scheduleId);
-            console.log(`Removed scheduled task ${scheduleId}`);
+            logger.info("Removed scheduled task", { scheduleId });
             return true;
         }
         return false;
@@ -178,9 +481,9 @@ export class SchedulerService {
     stopAllTasks() {
         for (const [id, task] of this.scheduledTasks.entries()) {
             task.stop();
-            console.log(`Stopped task ${id}`);
+            logger.debug("Stopped task", { scheduleId: id });
         }
         this.scheduledTasks.clear();
-        console.log("All scheduled tasks stopped");
+        logger.info("All scheduled tasks stopped");
     }
 }
@@ -0,0 +1,64 @@
+import { ScheduleStore, StoreChange } from "../types";
+import { SCHEDULES_FILE, SQLITE_PATH, STORAGE_BACKEND } from "../config";
+import { JsonFileStorage } from "./json";
+import { SqliteStorage } from "./sqlite";
+
+/**
+ * Persistence backend for the schedule store
+ * ScheduleManager keeps the store in memory and hands the whole snapshot to the backend on every change,
+ * along with what changed so backends that store records separately can write just that
+ */
+export interface ScheduleStorage {
+    /**
+     * Human-readable description of where the store lives, for logs
+     */
+    readonly description: string;
+
+    /**
+     * Read the stored data as written, which may be in an older format (see migrations.ts)
+     * @returns The raw store, or undefined when nothing has been saved yet
+     */
+    load(): Promise<unknown>;
+
+    /**
+     * Persist a new snapshot of the store
+     * @param store The complete store to persist
+     * @param change What changed since the last save; without it the stored data is replaced with the snapshot
+     */
+    save(store: ScheduleStore, change?: StoreChange): Promise<void>;
+
+    /**
+     * Copy the stored data aside, e.g. before a migration rewrites it
+     * @param label Short tag included in the backup's name
+     * @returns Where the backup was written, or undefined when there was nothing to back up
+     */
+    backup(label: string): Promise<string | undefined>;
+
+    /**
+     * Watch for changes made to the store by anything other than this process
+     * Changes are debounced, and this process's own saves never trigger a callback
+     * @param onChange Called with the new raw contents, which may be in an older format
+     * @param onError Called when changed contents can't be read
+     * @returns A function that stops watching
+     */
+    watch(onChange: (raw: unknown) => void, onError: (error: unknown) => void): () => void;
+
+    /**
+     * Release any resources held by the backend
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * Create the storage backend selected by STORAGE_BACKEND
+ */
+export function createStorage(): ScheduleStorage {
+    switch (STORAGE_BACKEND) {
+        case "sqlite":
+            return new SqliteStorage(SQLITE_PATH);
+        default:
+            return new JsonFileStorage(SCHEDULES_FILE);
+    }
+}
+
+export { JsonFileStorage, SqliteStorage };
@@ -0,0 +1,265 @@
+import fs from "fs";
+import path from "path";
+import { ScheduleStore } from "../types";
+import { STORE_BACKUP_COUNT, STORE_BACKUP_INTERVAL_MINUTES } from "../config";
+import { logger } from "../utils/logger";
+import type { ScheduleStorage } from ".";
+
+// Quiet period after the last file event before external changes are read
+const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * Stores the schedule store as a single JSON file
+ * Writes go to a temporary file that is fsynced and renamed over the store, so a crash leaves either the old or
+ * the new contents. Before overwriting, the previous file is copied to a rotating set of timestamped backups,
+ * and loading falls back to the newest readable backup when the file itself is corrupt.
+ */
+export class JsonFileStorage implements ScheduleStorage {
+    readonly description: string;
+    private lastWritten?: string; // Contents of our latest save, to tell our own writes from external ones
+
+    constructor(
+        private filePath: string,
+        private backupCount = STORE_BACKUP_COUNT,
+        private backupIntervalMs = STORE_BACKUP_INTERVAL_MINUTES * 60 * 1000
+    ) {
+        this.description = `JSON file ${filePath}`;
+    }
+
+    async load(): Promise<unknown> {
+        try {
+            return this.read(this.filePath);
+        } catch (error) {
+            const recovered = this.recover(error);
+            if (recovered === undefined) {
+                throw error;
+            }
+            return recovered;
+        }
+    }
+
+    async save(store: ScheduleStore): Promise<void> {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        this.rotateBackups();
+        const data = JSON.stringify(store, null, 2);
+        this.writeAtomic(this.filePath, data);
+        this.lastWritten = data;
+    }
+
+    async backup(label: string): Promise<string | undefined> {
+        if (!fs.existsSync(this.filePath)) {
+            return undefined;
+        }
+
+        const backupPath = `${this.filePath}.${label}-${Date.now()}.bak`;
+        fs.copyFileSync(this.filePath, backupPath);
+        return backupPath;
+    }
+
+    watch(onChange: (raw: unknown) => void, onError: (error: unknown) => void): () => void {
+        const fileName = path.basename(this.filePath);
+        let timer: NodeJS.Timeout | undefined;
+
+        const check = () => {
+            timer = undefined;
+            if (!fs.existsSync(this.filePath)) {
+                return; // Mid-replace, or deleted; a later event will bring the new file
+            }
+
+            try {
+                const data = fs.readFileSync(this.filePath, "utf8");
+                if (data === this.lastWritten) {
+                    return;
+                }
+                const raw = this.parse(data, this.filePath);
+                this.lastWritten = data;
+                onChange(raw);
+            } catch (error) {
+                onError(error);
+            }
+        };
+
+        // Watch the directory rather than the file: saves replace the file, which ends a watch on it
+        const watcher = fs.watch(path.dirname(this.filePath), (event, changed) => {
+            if (changed !== fileName) {
+                return;
+            }
+            if (timer) {
+                clearTimeout(timer);
+            }
+            timer = setTimeout(check, WATCH_DEBOUNCE_MS);
+        });
+
+        return () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            watcher.close();
+        };
+    }
+
+    async close(): Promise<void> {
+        // Nothing to release; every write goes straight to disk
+    }
+
+    /**
+     * Read and parse a store file
+     * @returns The parsed contents, or undefined when the main store file doesn't exist yet
+     * @throws When the file exists but can't be read or doesn't hold a store
+     */
+    private read(filePath: string): unknown {
+        if (!fs.existsSync(filePath)) {
+            if (filePath === this.filePath && this.listBackups().length === 0) {
+                return undefined;
+            }
+            throw new Error(`${filePath} is missing`);
+        }
+
+        const data = fs.readFileSync(filePath, "utf8");
+        const parsed = this.parse(data, filePath);
+
+        if (filePath === this.filePath) {
+            this.lastWritten = data;
+        }
+        return parsed;
+    }
+
+    /**
+     * Parse the contents of a store file
+     * @throws When the contents aren't JSON or don't hold a store
+     */
+    private parse(data: string, filePath: string): unknown {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(data);
+        } catch (error) {
+            throw new Error(`${filePath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+
+        // Either the current format or a bare array of schedules from before the store was versioned
+        const isStore =
+            Array.isArray(parsed) ||
+            (!!parsed && typeof parsed === "object" && Array.isArray((parsed as { schedules?: unknown }).schedules));
+        if (!isStore) {
+            throw new Error(`${filePath} does not contain a schedule store`);
+        }
+
+        return parsed;
+    }
+
+    /**
+     * Fall back to the newest readable backup after the store file failed to load
+     * The unreadable file is moved aside rather than deleted, so it can still be inspected
+     * @param cause Why the store file couldn't be loaded
+     * @returns The backup's contents, or undefined when no backup is readable
+     */
+    private recover(cause: unknown): unknown {
+        for (const backupPath of this.listBackups()) {
+            let recovered: unknown;
+            try {
+                recovered = this.read(backupPath);
+            } catch (error) {
+                logger.error(`Backup ${backupPath} is not usable either`, {
+                    error: error instanceof Error ? error.message : error,
+                });
+                continue;
+            }
+
+            let movedTo: string | undefined;
+            if (fs.existsSync(this.filePath)) {
+                movedTo = `${this.filePath}.corrupt-${Date.now()}`;
+                fs.renameSync(this.filePath, movedTo);
+            }
+
+            logger.error(
+                `!! Could not load ${this.filePath}; recovered schedules from backup ${backupPath}. ` +
+                    "Changes made after that backup was taken are lost. !!",
+                {
+                    cause: cause instanceof Error ? cause.message : cause,
+                    backup: backupPath,
+                    movedTo,
+                }
+            );
+
+            return recovered;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Copy the current store file to a new timestamped backup when the newest one is old enough,
+     * then delete the oldest backups beyond the configured count
+     */
+    private rotateBackups() {
+        if (this.backupCount <= 0 || !fs.existsSync(this.filePath)) {
+            return;
+        }
+
+        const backups = this.listBackups();
+        const newest = backups[0];
+        if (!newest || Date.now() - fs.statSync(newest).mtimeMs >= this.backupIntervalMs) {
+            const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+            const backupPath = `${this.filePath}.backup-${stamp}`;
+            fs.copyFileSync(this.filePath, backupPath);
+            backups.unshift(backupPath);
+        }
+
+        for (const stale of backups.slice(this.backupCount)) {
+            fs.unlinkSync(stale);
+        }
+    }
+
+    /**
+     * List the rotating backups of the store file, newest first
+     */
+    private listBackups(): string[] {
+        const dir = path.dirname(this.filePath);
+        const prefix = `${path.basename(this.filePath)}.backup-`;
+
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+
+        // ISO timestamps sort chronologically as strings
+        return fs
+            .readdirSync(dir)
+            .filter((name) => name.startsWith(prefix))
+            .sort()
+            .reverse()
+            .map((name) => path.join(dir, name));
+    }
+
+    /**
+     * Write a file so that it is either fully replaced or left untouched
+     */
+    private writeAtomic(filePath: string, data: string) {
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+
+        try {
+            const fd = fs.openSync(tempPath, "w");
+            try {
+                fs.writeSync(fd, data);
+                fs.fsyncSync(fd);
+            } finally {
+                fs.closeSync(fd);
+            }
+            fs.renameSync(tempPath, filePath);
+        } catch (error) {
+            fs.rmSync(tempPath, { force: true });
+            throw error;
+        }
+
+        // Persist the rename itself; not every platform can fsync a directory
+        try {
+            const dirFd = fs.openSync(path.dirname(filePath), "r");
+            try {
+                fs.fsyncSync(dirFd);
+            } finally {
+                fs.closeSync(dirFd);
+            }
+        } catch (error) {
+            // Ignore: the data is synced, only the directory entry may be lost on power failure
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { PermissionPolicy, RecentPost, ScheduleConfig, ScheduleRun, ScheduleStore } from "../types";
+
+/**
+ * Versioned upgrades for the schedule store format
+ * Every change to the stored shape bumps CURRENT_STORE_VERSION and adds a step below that upgrades the previous version
+ */
+
+// Version written by this build
+export const CURRENT_STORE_VERSION = 4;
+
+// A schedule as stored before version 3, with one field per platform instead of a list of targets
+type LegacySchedule = Omit<ScheduleConfig, "targets"> & {
+    discord?: { channelId?: string; guildId?: string };
+    telegram?: { chatId?: string | number };
+};
+
+// The store as each version left it; version 0 is anything written before the store was versioned
+interface StoreV1 {
+    schedules: LegacySchedule[];
+    runs?: ScheduleRun[];
+    recentPosts?: RecentPost[];
+    policies?: PermissionPolicy[];
+}
+
+interface StoreV2 extends StoreV1 {
+    runs: ScheduleRun[];
+    recentPosts: RecentPost[];
+    policies: PermissionPolicy[];
+}
+
+interface StoreV3 extends Omit<StoreV2, "schedules"> {
+    schedules: ScheduleConfig[];
+}
+
+interface StoreV4 extends StoreV3 {
+    schedules: (ScheduleConfig & { lastRunAt: number })[];
+}
+
+interface Migration<From, To> {
+    version: number; // Version the store has after this step
+    description: string;
+    up(store: From): To;
+}
+
+// Ordered upgrade steps; each takes a store at version - 1 and returns it at version
+const MIGRATIONS: [
+    Migration<unknown, StoreV1>,
+    Migration<StoreV1, StoreV2>,
+    Migration<StoreV2, StoreV3>,
+    Migration<StoreV3, StoreV4>,
+] = [
+    {
+        version: 1,
+        description: "Wrap unversioned stores (including a bare array of schedules) in the versioned format",
+        up: (store) => ({
+            schedules: Array.isArray(store)
+                ? store
+                : (store as { schedules?: LegacySchedule[] } | null | undefined)?.schedules || [],
+        }),
+    },
+    {
+        version: 2,
+        description: "Add run history, recent posts and permission policies; derive fetchType from content mixes",
+        up: (store) => ({
+            ...store,
+            schedules: store.schedules.map((schedule) =>
+                schedule.mix?.entries?.length ? { ...schedule, fetchType: schedule.mix.entries[0].type } : schedule
+            ),
+            runs: store.runs || [],
+            recentPosts: store.recentPosts || [],
+            policies: store.policies || [],
+        }),
+    },
+    {
+        version: 3,
+        description: "Replace the discord and telegram fields of schedules with a list of targets",
+        up: (store) => ({
+            ...store,
+            schedules: store.schedules.map(({ discord, telegram, ...schedule }) => ({
+                ...schedule,
+                // Discord comes first: Telegram schedules could not be linked to Discord, so it is always the origin
+                targets: [
+                    ...(discord?.channelId
+                        ? [{ platform: "discord", target: String(discord.channelId), scope: discord.guildId }]
+                        : []),
+                    ...(telegram?.chatId ? [{ platform: "telegram", target: String(telegram.chatId) }] : []),
+                ],
+            })),
+        }),
+    },
+    {
+        version: 4,
+        description: "Count missed runs from the upgrade for schedules saved before run times were recorded",
+        up: (store) => {
+            // Without this, catch-up would treat every fire time since the schedule was created as missed
+            const upgradedAt = Date.now();
+            return {
+                ...store,
+                schedules: store.schedules.map((schedule) => ({
+                    ...schedule,
+                    lastRunAt: schedule.lastRunAt ?? upgradedAt,
+                })),
+            };
+        },
+    },
+];
+
+/**
+ * Raised when the store can't be read by this build
+ */
+export class StoreVersionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "StoreVersionError";
+    }
+}
+
+/**
+ * Read the format version of a stored value; unversioned stores count as version 0
+ */
+export function getStoreVersion(raw: unknown): number {
+    if (raw && typeof raw === "object" && !Array.isArray(raw) && "version" in raw) {
+        const version = Number((raw as { version: unknown }).version);
+        if (!Number.isInteger(version) || version < 0) {
+            throw new StoreVersionError(`The schedule store has an invalid version: ${String(raw.version)}`);
+        }
+        return version;
+    }
+    return 0;
+}
+
+/**
+ * Upgrade a stored value to the current format
+ * @param raw The store as read from the backend
+ * @returns The upgraded store and the descriptions of the steps that were applied
+ * @throws StoreVersionError when the store was written by a newer version of the bot
+ */
+export function migrateStore(raw: unknown): { store: ScheduleStore; fromVersion: number; applied: string[] } {
+    const fromVersion = getStoreVersion(raw);
+
+    if (fromVersion > CURRENT_STORE_VERSION) {
+        throw new StoreVersionError(
+            `The schedule store is at version ${fromVersion}, but this build only understands up to version ` +
+                `${CURRENT_STORE_VERSION}. It was written by a newer version of the bot; upgrade the bot instead of ` +
+                `starting this one, which could lose data.`
+        );
+    }
+
+    // Each step's output is the next one's input, which the version check guarantees rather than the types
+    let store: unknown = raw;
+    const applied: string[] = [];
+
+    for (const migration of MIGRATIONS as Migration<unknown, object>[]) {
+        if (migration.version <= fromVersion) {
+            continue;
+        }
+        store = { ...migration.up(store), version: migration.version };
+        applied.push(`v${migration.version}: ${migration.description}`);
+    }
+
+    if (!Array.isArray((store as Partial<ScheduleStore> | null)?.schedules)) {
+        throw new StoreVersionError("The schedule store has no schedules list");
+    }
+
+    return { store: store as ScheduleStore, fromVersion, applied };
+}
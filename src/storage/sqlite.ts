@@ -0,0 +1,217 @@
+import Database from "better-sqlite3";
+import { PermissionPolicy, RecentPost, ScheduleConfig, ScheduleRun, ScheduleStore, StoreChange } from "../types";
+import type { ScheduleStorage } from ".";
+
+// Tables are keyed for lookups; each row keeps the full record as JSON so new fields need no schema change
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        schedule_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS runs_by_schedule ON runs (schedule_id, timestamp);
+    CREATE TABLE IF NOT EXISTS recent_posts (
+        platform TEXT NOT NULL,
+        target TEXT NOT NULL,
+        item_key TEXT NOT NULL,
+        posted_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS policies (
+        platform TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (platform, scope)
+    );
+`;
+
+// How often to check whether another process changed the database
+const WATCH_INTERVAL_MS = 2000;
+
+/**
+ * Stores the schedule store in an embedded SQLite database
+ */
+export class SqliteStorage implements ScheduleStorage {
+    readonly description: string;
+    private db: Database.Database;
+
+    constructor(private filePath: string) {
+        this.description = `SQLite database ${filePath}`;
+        this.db = new Database(filePath);
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec(SCHEMA);
+    }
+
+    async load(): Promise<ScheduleStore | undefined> {
+        const version = this.db.prepare("SELECT value FROM meta WHERE key = 'version'").get() as
+            { value: string } | undefined;
+
+        // Nothing has been saved yet
+        if (!version) {
+            return undefined;
+        }
+
+        const parse = <T>(rows: unknown[]): T[] => (rows as { data: string }[]).map((row) => JSON.parse(row.data));
+
+        return {
+            schedules: parse<ScheduleConfig>(this.db.prepare("SELECT data FROM schedules ORDER BY position").all()),
+            runs: parse<ScheduleRun>(this.db.prepare("SELECT data FROM runs ORDER BY id").all()),
+            recentPosts: (
+                this.db
+                    .prepare("SELECT platform, target, item_key, posted_at FROM recent_posts ORDER BY posted_at")
+                    .all() as {
+                    platform: RecentPost["platform"];
+                    target: string;
+                    item_key: string;
+                    posted_at: number;
+                }[]
+            ).map((row) => ({
+                platform: row.platform,
+                target: row.target,
+                itemKey: row.item_key,
+                postedAt: row.posted_at,
+            })),
+            policies: parse<PermissionPolicy>(this.db.prepare("SELECT data FROM policies").all()),
+            version: parseInt(version.value, 10),
+        };
+    }
+
+    async save(store: ScheduleStore, change?: StoreChange): Promise<void> {
+        // Write in one transaction so readers never see half a change
+        this.db.transaction(() => (change ? this.applyChange(store, change) : this.replace(store)))();
+    }
+
+    /**
+     * Replace everything stored with a snapshot, e.g. on first save or after a migration
+     */
+    private replace(store: ScheduleStore) {
+        this.db.exec("DELETE FROM schedules; DELETE FROM runs; DELETE FROM recent_posts; DELETE FROM policies;");
+
+        const insertSchedule = this.db.prepare("INSERT INTO schedules (id, position, data) VALUES (?, ?, ?)");
+        store.schedules.forEach((schedule, index) => insertSchedule.run(schedule.id, index, JSON.stringify(schedule)));
+        for (const run of store.runs || []) {
+            this.insertRun(run);
+        }
+        for (const post of store.recentPosts || []) {
+            this.insertPost(post);
+        }
+        for (const policy of store.policies || []) {
+            this.upsertPolicy(policy);
+        }
+
+        this.db
+            .prepare("INSERT INTO meta (key, value) VALUES ('version', ?) ON CONFLICT(key) DO UPDATE SET value = ?")
+            .run(String(store.version), String(store.version));
+    }
+
+    /**
+     * Write only the rows a change touched, pruning whatever the snapshot no longer keeps
+     */
+    private applyChange(store: ScheduleStore, change: StoreChange) {
+        switch (change.kind) {
+            case "schedule": {
+                const schedule = store.schedules.find((entry) => entry.id === change.id);
+                if (!schedule) {
+                    this.db.prepare("DELETE FROM runs WHERE schedule_id = ?").run(change.id);
+                    this.db.prepare("DELETE FROM schedules WHERE id = ?").run(change.id);
+                    return;
+                }
+                // New schedules go last; existing ones keep their position
+                this.db
+                    .prepare(
+                        "INSERT INTO schedules (id, position, data) " +
+                            "VALUES (?, (SELECT COALESCE(MAX(position), -1) + 1 FROM schedules), ?) " +
+                            "ON CONFLICT(id) DO UPDATE SET data = excluded.data"
+                    )
+                    .run(schedule.id, JSON.stringify(schedule));
+                return;
+            }
+            case "run": {
+                this.insertRun(change.run);
+                // Keep as many of the schedule's latest runs as the snapshot does
+                const kept = (store.runs || []).filter((run) => run.scheduleId === change.run.scheduleId).length;
+                this.db
+                    .prepare(
+                        "DELETE FROM runs WHERE schedule_id = ? AND id NOT IN " +
+                            "(SELECT id FROM runs WHERE schedule_id = ? ORDER BY id DESC LIMIT ?)"
+                    )
+                    .run(change.run.scheduleId, change.run.scheduleId, kept);
+                return;
+            }
+            case "post": {
+                this.insertPost(change.post);
+                // Drop posts older than the oldest one the snapshot still keeps
+                const oldest = (store.recentPosts || []).reduce((min, post) => Math.min(min, post.postedAt), Infinity);
+                if (Number.isFinite(oldest)) {
+                    this.db.prepare("DELETE FROM recent_posts WHERE posted_at < ?").run(oldest);
+                }
+                return;
+            }
+            case "policy":
+                this.upsertPolicy(change.policy);
+                return;
+        }
+    }
+
+    private insertRun(run: ScheduleRun) {
+        this.db
+            .prepare("INSERT INTO runs (schedule_id, timestamp, data) VALUES (?, ?, ?)")
+            .run(run.scheduleId, run.timestamp, JSON.stringify(run));
+    }
+
+    private insertPost(post: RecentPost) {
+        this.db
+            .prepare("INSERT INTO recent_posts (platform, target, item_key, posted_at) VALUES (?, ?, ?, ?)")
+            .run(post.platform, post.target, post.itemKey, post.postedAt);
+    }
+
+    private upsertPolicy(policy: PermissionPolicy) {
+        this.db
+            .prepare(
+                "INSERT INTO policies (platform, scope, data) VALUES (?, ?, ?) " +
+                    "ON CONFLICT(platform, scope) DO UPDATE SET data = excluded.data"
+            )
+            .run(policy.platform, policy.scope, JSON.stringify(policy));
+    }
+
+    async backup(label: string): Promise<string | undefined> {
+        const backupPath = `${this.filePath}.${label}-${Date.now()}.bak`;
+        await this.db.backup(backupPath);
+        return backupPath;
+    }
+
+    watch(onChange: (raw: unknown) => void, onError: (error: unknown) => void): () => void {
+        // data_version only changes when another connection commits, so our own saves are ignored
+        const dataVersion = () => this.db.pragma("data_version", { simple: true }) as number;
+        let lastVersion = dataVersion();
+
+        const timer = setInterval(async () => {
+            try {
+                const version = dataVersion();
+                if (version === lastVersion) {
+                    return;
+                }
+                lastVersion = version;
+                onChange(await this.load());
+            } catch (error) {
+                onError(error);
+            }
+        }, WATCH_INTERVAL_MS);
+        timer.unref();
+
+        return () => clearInterval(timer);
+    }
+
+    async close(): Promise<void> {
+        this.db.close();
+    }
+}
@@ -0,0 +1,96 @@
+import { Context, Telegram } from "telegraf";
+import { logger } from "../utils/logger";
+
+/**
+ * Resolve who sent a Telegram command and whether they administer the chat
+ */
+
+// How long a chat's administrator list is trusted before it is fetched again
+const ADMIN_CACHE_TTL_MS = 60 * 1000;
+
+// Administrator user IDs per chat, fetched with getChatAdministrators
+const adminCache: Map<string, { adminIds: Set<number>; expiresAt: number }> = new Map();
+
+// The person (or chat) behind a command
+export interface TelegramRequester {
+    userId: string; // The user's ID, or the chat's ID for anonymous admins and channel posts
+    username: string;
+}
+
+/**
+ * Get the IDs of a chat's administrators, using the cached list while it is fresh
+ * Throws when the bot can't read the chat (e.g. it is not a member)
+ * @param telegram The Telegram API client
+ * @param chatId The chat to look up
+ */
+async function getAdminIds(telegram: Telegram, chatId: string | number): Promise<Set<number>> {
+    const key = String(chatId);
+    const cached = adminCache.get(key);
+
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.adminIds;
+    }
+
+    const administrators = await telegram.getChatAdministrators(chatId);
+    const adminIds = new Set(administrators.map((member) => member.user.id));
+    adminCache.set(key, { adminIds, expiresAt: Date.now() + ADMIN_CACHE_TTL_MS });
+    return adminIds;
+}
+
+/**
+ * Check whether a user is an admin (or the creator) of a Telegram chat
+ * - Acting as the chat itself counts: anonymous group admins and channel posts use the chat's ID as their user ID,
+ *   which only admins can do, and a private chat's ID is the ID of the user who owns it
+ * - Everyone else is looked up in the chat's administrator list
+ * Returns false when the bot can't see the chat
+ * @param telegram The Telegram API client
+ * @param chatId The chat to check
+ * @param userId The user to check, as resolved by resolveRequester
+ */
+export async function isChatAdmin(telegram: Telegram, chatId: string | number, userId: string): Promise<boolean> {
+    if (String(chatId) === userId) {
+        return true;
+    }
+
+    try {
+        return (await getAdminIds(telegram, chatId)).has(Number(userId));
+    } catch (error) {
+        logger.warn("Error fetching chat administrators", { platform: "telegram", chatId: String(chatId), error });
+
+        // Fall back to a direct lookup, e.g. when the bot can't list admins but can see the member
+        try {
+            const member = await telegram.getChatMember(chatId, Number(userId));
+            return member.status === "creator" || member.status === "administrator";
+        } catch (memberError) {
+            return false;
+        }
+    }
+}
+
+/**
+ * Work out who sent the current command
+ * - Anonymous group admins and channel posts: the message comes from the chat itself.
+ *   The chat's ID stands in for the user ID, so these schedules belong to the chat's admins collectively
+ * - Messages sent on behalf of another chat (e.g. a linked channel): that chat's ID, which never administers this one
+ * - Everyone else: the user's ID
+ * @param ctx The Telegraf context of the command
+ * @returns The requester, or undefined when the sender can't be determined
+ */
+export function resolveRequester(ctx: Context): TelegramRequester | undefined {
+    if (!ctx.chat) {
+        return undefined;
+    }
+
+    const senderChat = ctx.senderChat;
+    if (senderChat) {
+        const title = "title" in senderChat ? senderChat.title : "Anonymous";
+        return { userId: senderChat.id.toString(), username: title };
+    }
+
+    const from = ctx.from;
+    if (!from) {
+        return undefined;
+    }
+
+    return { userId: from.id.toString(), username: from.username || from.first_name || "Anonymous" };
+}
@@ -0,0 +1,20 @@
+import { Telegraf } from "telegraf";
+import { HealthService } from "../../services/health";
+import { commandInvocations } from "../../utils/metrics";
+import { isChatAdmin, resolveRequester } from "../admins";
+
+/**
+ * Register the /botstatus command, which shows chat admins whether the bot and its services are healthy
+ */
+export function registerBotStatusCommand(bot: Telegraf, healthService: HealthService) {
+    bot.command("botstatus", async (ctx) => {
+        commandInvocations.inc({ platform: "telegram", command: "botstatus" });
+
+        const requester = resolveRequester(ctx);
+        if (!requester || !ctx.chat || !(await isChatAdmin(ctx.telegram, ctx.chat.id, requester.userId))) {
+            return ctx.reply("Only chat admins can check the bot status.");
+        }
+
+        return ctx.reply(healthService.formatReport());
+    });
+}
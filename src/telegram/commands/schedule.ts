@@ -1,8 +1,16 @@
 import { Context, Telegraf } from "telegraf";
+import { channelPost } from "telegraf/filters";
 import { Message } from "telegraf/typings/core/types/typegram";
 import { ScheduleManager } from "../../utils/schedule-manager";
 import { SchedulerService } from "../../services/scheduler";
-import { FetchType } from "../../types";
+import { CatchUpPolicy, ContentMix, FetchType, ScheduleConfig, ScheduleRun, ScheduleTarget } from "../../types";
+import { describeCatchUp, isValidCron, isValidTimezone } from "../../utils/cron";
+import { describeFilters, parseFilters } from "../../utils/filters";
+import { describeContent, isContentMixInput, parseContentMix } from "../../utils/content-mix";
+import { commandInvocations } from "../../utils/metrics";
+import { logger } from "../../utils/logger";
+import { getTarget, hasTarget, isCreatedOn, withoutTarget, withTarget } from "../../utils/targets";
+import { resolveRequester } from "../admins";
 
 /**
  * Parse command arguments with proper quote handling
@@ -20,54 +28,147 @@ function parseCommandArguments(text: string): string[] {
     return args;
 }
 
+/**
+ * Remove a key=value option from the argument list and return its value
+ * Returns undefined when none of the keys are present
+ */
+function extractOption(args: string[], keys: string[]): string | undefined {
+    const index = args.findIndex((arg) => keys.some((key) => arg.toLowerCase().startsWith(`${key}=`)));
+    if (index === -1) {
+        return undefined;
+    }
+    const [arg] = args.splice(index, 1);
+    return arg.slice(arg.indexOf("=") + 1);
+}
+
+/**
+ * Map friendly frequency names and dynamic phrases to cron expressions
+ * Anything unrecognized is returned unchanged so it can be validated as a cron expression
+ */
+function parseFrequency(frequency: string): string {
+    const freqLower = frequency.toLowerCase();
+    if (freqLower === "hourly" || freqLower === "every hour") return "0 * * * *";
+    if (freqLower === "daily" || freqLower === "every day") return "0 12 * * *";
+    if (freqLower === "weekly" || freqLower === "every week") return "0 12 * * 1";
+
+    const everyMinMatch = freqLower.match(/^every\s+(\d+)\s+minutes?$/);
+    if (everyMinMatch) {
+        const minutes = parseInt(everyMinMatch[1], 10);
+        if (minutes >= 1 && minutes <= 59) return `*/${minutes} * * * *`;
+    }
+
+    const everyHourMatch = freqLower.match(/^every\s+(\d+)\s+hours?$/);
+    if (everyHourMatch) {
+        const hours = parseInt(everyHourMatch[1], 10);
+        if (hours >= 1 && hours <= 23) return `0 */${hours} * * *`;
+    }
+
+    return frequency;
+}
+
 // Get the singleton instance of the schedule manager
 const scheduleManager = ScheduleManager.getInstance();
 
+// Number of recent runs shown by /schedule_status
+const STATUS_RUN_COUNT = 5;
+
+// Schedule section of the /help reply
+export const SCHEDULE_HELP =
+    "Schedule Commands:\n" +
+    "Note: quote any multi-word frequency or cron expression.\n" +
+    "  /schedule_create <artist|nft> <frequency or cron> <name> [tz=<time zone>]\n" +
+    "\n" +
+    "Example: post a random artist every day at noon:\n" +
+    '  /schedule_create artist daily "Daily Artist"\n' +
+    "    Examples:\n" +
+    '      /schedule_create artist daily "Daily Artist"\n' +
+    '      /schedule_create artist every day "Daily Artist"\n' +
+    '      /schedule_create nft every 15 minutes "Quick NFT"\n' +
+    '      /schedule_create artist "0 8 * * 1-5" "Weekday Morning"\n' +
+    '      /schedule_create nft:70,artist:30 daily "Daily Mix"\n' +
+    "  /schedule_list - Show all schedules in this chat\n" +
+    "  /schedule_delete [id] - Delete a schedule\n" +
+    "  /schedule_edit [id] key=value... - Change a schedule (type=, cron=, name=, chat=)\n" +
+    "  /schedule_pause [id] - Pause a schedule\n" +
+    "  /schedule_resume [id] - Resume a paused schedule\n" +
+    "  /schedule_run [id] - Post from a schedule right now\n" +
+    "  /schedule_status [id] - Show recent runs and the next post time\n" +
+    "  /schedule_permissions [key=value...] - Who may create and manage schedules here (admins only)\n" +
+    "  /schedule_link [code] - Also post a Discord schedule here (get the code with /schedule link)\n" +
+    "  /schedule_unlink [id] - Stop posting a linked Discord schedule here\n" +
+    "\nFrequency Options:\n" +
+    "  hourly           - every hour\n" +
+    "  daily            - every day at noon\n" +
+    "  weekly           - every week on Monday at noon\n" +
+    "  every X minutes   - choose 1 to 59 minutes\n" +
+    "  every X hours     - choose 1 to 23 hours\n" +
+    "  Or supply any valid cron expression in quotes.\n" +
+    "\nTime zone: add tz=<IANA name> (e.g. tz=Europe/Berlin) to run in that zone instead of server time.\n" +
+    "Missed runs: add catchup=skip|once|all to choose what happens to posts missed while the bot was offline.\n" +
+    "Filters: add min=, max=, media=, collections=, exclude_collections=, creators= or exclude_creators=.\n" +
+    "Mixed content: use nft,artist as the type to take turns, or nft:70,artist:30 to pick by weight.";
+
+/**
+ * Logger carrying the chat a command was used in
+ */
+function commandLogger(ctx: Context) {
+    return logger.child({ platform: "telegram", chatId: ctx.chat ? String(ctx.chat.id) : undefined });
+}
+
 /**
  * Register schedule commands with a Telegram bot
  */
 export function registerScheduleCommands(bot: Telegraf, schedulerService: SchedulerService) {
-    // Command to create a schedule
-    bot.command("schedule_create", (ctx) => handleCreateSchedule(ctx, schedulerService));
+    const commands: Record<string, (ctx: Context) => Promise<unknown>> = {
+        // Command to create a schedule
+        schedule_create: (ctx) => handleCreateSchedule(ctx, schedulerService),
 
-    // Command to list schedules
-    bot.command("schedule_list", (ctx) => handleListSchedules(ctx));
+        // Command to list schedules
+        schedule_list: (ctx) => handleListSchedules(ctx, schedulerService),
 
-    // Command to delete a schedule
-    bot.command("schedule_delete", (ctx) => handleDeleteSchedule(ctx, schedulerService));
+        // Command to delete a schedule
+        schedule_delete: (ctx) => handleDeleteSchedule(ctx, schedulerService),
 
-    // Command to pause a schedule
-    bot.command("schedule_pause", (ctx) => handlePauseSchedule(ctx, schedulerService));
+        // Command to edit a schedule
+        schedule_edit: (ctx) => handleEditSchedule(ctx, schedulerService),
 
-    // Command to resume a schedule
-    bot.command("schedule_resume", (ctx) => handleResumeSchedule(ctx, schedulerService));
+        // Command to pause a schedule
+        schedule_pause: (ctx) => handlePauseSchedule(ctx, schedulerService),
 
-    // Add help text for schedule commands
-    bot.help((ctx) => {
-        return ctx.reply(
-            "Schedule Commands:\n" +
-                "Note: quote any multi-word frequency or cron expression.\n" +
-                "  /schedule_create <artist|nft> <frequency or cron> <name>\n" +
-                "\n" +
-                "Example: post a random artist every day at noon:\n" +
-                '  /schedule_create artist daily "Daily Artist"\n' +
-                "    Examples:\n" +
-                '      /schedule_create artist daily "Daily Artist"\n' +
-                '      /schedule_create artist every day "Daily Artist"\n' +
-                '      /schedule_create nft every 15 minutes "Quick NFT"\n' +
-                '      /schedule_create artist "0 8 * * 1-5" "Weekday Morning"\n' +
-                "  /schedule_list - Show all schedules in this chat\n" +
-                "  /schedule_delete [id] - Delete a schedule\n" +
-                "  /schedule_pause [id] - Pause a schedule\n" +
-                "  /schedule_resume [id] - Resume a paused schedule\n" +
-                "\nFrequency Options:\n" +
-                "  hourly           - every hour\n" +
-                "  daily            - every day at noon\n" +
-                "  weekly           - every week on Monday at noon\n" +
-                "  every X minutes   - choose 1 to 59 minutes\n" +
-                "  every X hours     - choose 1 to 23 hours\n" +
-                "  Or supply any valid cron expression in quotes."
-        );
+        // Command to resume a schedule
+        schedule_resume: (ctx) => handleResumeSchedule(ctx, schedulerService),
+
+        // Command to post from a schedule right away
+        schedule_run: (ctx) => handleRunSchedule(ctx, schedulerService),
+
+        // Commands to attach this chat to a Discord schedule and detach it again
+        schedule_link: (ctx) => handleLinkSchedule(ctx, schedulerService),
+        schedule_unlink: (ctx) => handleUnlinkSchedule(ctx, schedulerService),
+
+        // Command to view or change who may create and manage schedules in this chat
+        schedule_permissions: (ctx) => handlePermissions(ctx, schedulerService),
+
+        // Command to show recent runs of a schedule
+        schedule_status: (ctx) => handleScheduleStatus(ctx, schedulerService),
+    };
+
+    for (const [name, handler] of Object.entries(commands)) {
+        bot.command(name, (ctx) => {
+            commandInvocations.inc({ platform: "telegram", command: name });
+            return handler(ctx);
+        });
+    }
+
+    // bot.command only sees messages, so commands posted in channels are routed here
+    bot.on(channelPost("text"), (ctx, next) => {
+        const match = ctx.channelPost.text.match(/^\/(\w+)(?:@(\w+))?/);
+        const handler = match && commands[match[1]];
+
+        if (!handler || (match[2] && match[2].toLowerCase() !== ctx.me.toLowerCase())) {
+            return next();
+        }
+        commandInvocations.inc({ platform: "telegram", command: match[1] });
+        return handler(ctx);
     });
 }
 
@@ -76,7 +177,7 @@ export function registerScheduleCommands(bot: Telegraf, schedulerService: Schedu
  * Format: /schedule_create [artist|nft] [frequency/cron] [name]
  */
 async function handleCreateSchedule(ctx: Context, schedulerService: SchedulerService) {
-    const message = ctx.message && "text" in ctx.message ? ctx.message.text : "";
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
 
     // Parse command arguments with proper quote handling
     const args = parseCommandArguments(message);
@@ -84,71 +185,86 @@ async function handleCreateSchedule(ctx: Context, schedulerService: SchedulerSer
     // First argument is the command itself
     const command = args.shift();
 
+    // Pull out the optional key=value arguments before reading positional arguments
+    const timezone = extractOption(args, ["tz", "timezone"]);
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+        return ctx.reply(`Invalid time zone "${timezone}". Please use an IANA time zone name like tz=Europe/Berlin.`);
+    }
+
+    const catchUpPolicy = extractOption(args, ["catchup"])?.toLowerCase();
+    if (catchUpPolicy !== undefined && !["skip", "once", "all"].includes(catchUpPolicy)) {
+        return ctx.reply("Invalid catch-up policy. Please use catchup=skip, catchup=once or catchup=all.");
+    }
+
+    const { filters, error: filterError } = parseFilters({
+        minPrice: extractOption(args, ["min", "min_price"]),
+        maxPrice: extractOption(args, ["max", "max_price"]),
+        media: extractOption(args, ["media"]),
+        collections: extractOption(args, ["collections"]),
+        excludeCollections: extractOption(args, ["exclude_collections"]),
+        creators: extractOption(args, ["creators"]),
+        excludeCreators: extractOption(args, ["exclude_creators"]),
+    });
+    if (filterError) {
+        return ctx.reply(`Invalid filters: ${filterError}`);
+    }
+
     // Check for type parameter
     if (args.length < 1) {
         return ctx.reply(
-            "Usage: /schedule_create <artist|nft> <frequency or cron> <name>\n\n" +
+            "Usage: /schedule_create <artist|nft> <frequency or cron> <name> [tz=<time zone>]\n\n" +
                 "Examples:\n" +
                 '  /schedule_create artist daily "Daily Artist"\n' +
                 '  /schedule_create artist every day "Daily Artist"\n' +
                 '  /schedule_create nft every 15 minutes "Quick NFT"\n' +
-                '  /schedule_create artist "0 8 * * 1-5" "Weekday Morning"\n\n' +
+                '  /schedule_create artist "0 8 * * 1-5" "Weekday Morning"\n' +
+                '  /schedule_create artist daily "Berlin Noon" tz=Europe/Berlin\n' +
+                '  /schedule_create nft,artist "every 6 hours" "Variety"\n\n' +
+                "Type: artist, nft, or a mix - nft,artist takes turns, nft:70,artist:30 picks by weight\n\n" +
                 "Frequency options:\n" +
                 "  hourly           - every hour\n" +
                 "  daily            - every day at noon\n" +
                 "  weekly           - every week on Monday at noon\n" +
                 "  every X minutes   - 1 to 59 minutes\n" +
                 "  every X hours     - 1 to 23 hours\n" +
-                "  or a custom cron expression in quotes"
+                "  or a custom cron expression in quotes\n\n" +
+                "Time zone (optional): tz=<IANA name>, e.g. tz=America/New_York. Defaults to server time.\n" +
+                "Missed runs (optional): catchup=skip|once|all - what to post after the bot was offline.\n\n" +
+                "Filters (optional, lists are comma-separated):\n" +
+                "  min=<ꜩ> max=<ꜩ>        - listing price range\n" +
+                "  media=image,video      - allowed media types\n" +
+                "  collections=KT1...     - only these collections (exclude_collections= to skip some)\n" +
+                "  creators=tz1...        - only these creators (exclude_creators= to skip some)"
         );
     }
 
     // Parse parameters
     const type = args[0].toLowerCase();
 
-    // Check for valid type
-    if (type !== "artist" && type !== "nft") {
-        return ctx.reply("Invalid type. Please use 'artist' or 'nft'.");
+    // The type is either artist, nft or a mix like "nft,artist" / "nft:70,artist:30"
+    let mix: ContentMix | undefined;
+    if (isContentMixInput(type)) {
+        const parsed = parseContentMix(type);
+        if (!parsed.mix) {
+            return ctx.reply(`Invalid mix: ${parsed.error}`);
+        }
+        mix = parsed.mix;
+    } else if (type !== "artist" && type !== "nft") {
+        return ctx.reply("Invalid type. Please use 'artist', 'nft' or a mix like 'nft,artist' or 'nft:70,artist:30'.");
     }
+    const fetchType: FetchType = mix ? mix.entries[0].type : (type as FetchType);
 
     // Get cron expression (default to daily at noon if not provided)
     let cronExpression = args.length > 1 ? args[1] : "daily";
 
     // Get name (default to type-based name if not provided)
-    let name = args.length > 2 ? args[2] : type === "artist" ? "Random Artist" : "Random NFT";
+    let name = args.length > 2 ? args[2] : mix ? "Mixed Content" : describeContent({ fetchType });
 
     // Map friendly names and dynamic phrases to cron expressions
-    const freqLower = cronExpression.toLowerCase();
-    if (freqLower === "hourly" || freqLower === "every hour") cronExpression = "0 * * * *";
-    else if (freqLower === "daily" || freqLower === "every day") cronExpression = "0 12 * * *";
-    else if (freqLower === "weekly" || freqLower === "every week") cronExpression = "0 12 * * 1";
-    else {
-        const everyMinMatch = freqLower.match(/^every\s+(\d+)\s+minutes?$/);
-        if (everyMinMatch) {
-            const minutes = parseInt(everyMinMatch[1], 10);
-            if (minutes >= 1 && minutes <= 59) {
-                cronExpression = `*/${minutes} * * * *`;
-            }
-        } else {
-            const everyHourMatch = freqLower.match(/^every\s+(\d+)\s+hours?$/);
-            if (everyHourMatch) {
-                const hours = parseInt(everyHourMatch[1], 10);
-                if (hours >= 1 && hours <= 23) {
-                    cronExpression = `0 */${hours} * * *`;
-                }
-            }
-        }
-    }
+    cronExpression = parseFrequency(cronExpression);
 
     // Validate cron expression
-    let isValidCron = true;
-    try {
-        require("node-cron").validate(cronExpression);
-    } catch (error) {
-        isValidCron = false;
-    }
-
-    if (!isValidCron) {
+    if (!isValidCron(cronExpression)) {
         return ctx.reply(
             "Invalid schedule format. Please use one of these options:\n" +
                 "- hourly (posts every hour)\n" +
@@ -168,22 +284,29 @@ async function handleCreateSchedule(ctx: Context, schedulerService: SchedulerSer
         }
 
         // Get user info
-        const userId = ctx.from?.id.toString();
-        const username = ctx.from?.username || ctx.from?.first_name || "Anonymous";
-
-        if (!userId) {
+        const requester = resolveRequester(ctx);
+        if (!requester) {
             return ctx.reply("Could not determine user ID. Please try again.");
         }
 
+        // Check the chat's policy on who may create schedules
+        const here: ScheduleTarget = { platform: "telegram", target: chatId };
+        if (!(await schedulerService.canUserCreateSchedule(requester.userId, here))) {
+            return ctx.reply("You don't have permission to create schedules in this chat.");
+        }
+
         // Create the schedule
         const schedule = await scheduleManager.createUserSchedule({
             name,
-            fetchType: type as FetchType,
+            fetchType,
+            mix,
             cronExpression,
-            platform: "telegram",
-            chatId,
-            userId,
-            username,
+            timezone,
+            catchUp: catchUpPolicy ? { policy: catchUpPolicy as CatchUpPolicy } : undefined,
+            filters,
+            target: { platform: "telegram", target: chatId },
+            userId: requester.userId,
+            username: requester.username,
         });
 
         // Add the schedule to the scheduler service
@@ -201,12 +324,15 @@ async function handleCreateSchedule(ctx: Context, schedulerService: SchedulerSer
         return ctx.reply(
             `✅ Schedule created successfully!\n\n` +
                 `Name: ${schedule.name}\n` +
-                `Type: ${schedule.fetchType === "artist" ? "Random Artist" : "Random NFT"}\n` +
+                `Type: ${describeContent(schedule)}\n` +
                 `Schedule: ${cronDescription}\n` +
+                `Time zone: ${schedule.timezone || "Server time"}\n` +
+                `Missed runs: ${describeCatchUp(schedule.catchUp?.policy)}\n` +
+                `Filters: ${describeFilters(schedule.filters)}\n` +
                 `ID: ${schedule.id}`
         );
     } catch (error) {
-        console.error("Error creating schedule:", error);
+        commandLogger(ctx).error("Error creating schedule", { error });
         return ctx.reply("There was an error creating the schedule. Please try again later.");
     }
 }
@@ -214,7 +340,7 @@ async function handleCreateSchedule(ctx: Context, schedulerService: SchedulerSer
 /**
  * Handle the schedule_list command
  */
-async function handleListSchedules(ctx: Context) {
+async function handleListSchedules(ctx: Context, schedulerService: SchedulerService) {
     const chatId = ctx.chat?.id.toString();
 
     if (!chatId) {
@@ -222,7 +348,7 @@ async function handleListSchedules(ctx: Context) {
     }
 
     // Get all schedules for this chat
-    const schedules = scheduleManager.getTelegramChatSchedules(chatId);
+    const schedules = scheduleManager.getTargetSchedules("telegram", chatId);
 
     if (schedules.length === 0) {
         return ctx.reply("No schedules found for this chat. Create one with /schedule_create");
@@ -231,7 +357,7 @@ async function handleListSchedules(ctx: Context) {
     let message = `📅 Schedules for this chat:\n\n`;
 
     schedules.forEach((schedule, index) => {
-        const status = schedule.enabled ? "✅ Active" : "⏸️ Paused";
+        const status = describeStatus(schedule, schedulerService);
         const creator = schedule.createdBy?.username || "Unknown";
 
         // Format the cron expression nicely
@@ -244,8 +370,16 @@ async function handleListSchedules(ctx: Context) {
         else if (schedule.cronExpression === "0 12 * * 1") cronDescription = "Weekly on Monday at noon";
 
         message += `${index + 1}. ${schedule.name} (${status})\n`;
-        message += `   Type: ${schedule.fetchType === "artist" ? "Random Artist" : "Random NFT"}\n`;
+        message += `   Type: ${describeContent(schedule)}\n`;
         message += `   Schedule: ${cronDescription}\n`;
+        message += `   Time zone: ${schedule.timezone || "Server time"}\n`;
+        const discord = getTarget(schedule, "discord");
+        if (discord) {
+            const discordDisabled = schedulerService.getDisabledPlatforms(schedule).includes("discord");
+            message += `   Linked from Discord channel ${discord.target}`;
+            message += discordDisabled ? " (not posted there, Discord isn't enabled for this bot)\n" : "\n";
+        }
+        message += `   Filters: ${describeFilters(schedule.filters)}\n`;
         message += `   Created by: ${creator}\n`;
         message += `   ID: ${schedule.id}\n\n`;
     });
@@ -257,7 +391,7 @@ async function handleListSchedules(ctx: Context) {
  * Handle the schedule_delete command
  */
 async function handleDeleteSchedule(ctx: Context, schedulerService: SchedulerService) {
-    const message = ctx.message && "text" in ctx.message ? ctx.message.text : "";
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
     const args = parseCommandArguments(message);
     args.shift(); // Remove command name
 
@@ -276,27 +410,29 @@ async function handleDeleteSchedule(ctx: Context, schedulerService: SchedulerSer
     const schedule = scheduleManager.getSchedule(scheduleId);
 
     // Check if schedule exists and belongs to this chat
-    if (!schedule || schedule.telegram?.chatId !== chatId) {
+    if (!schedule || !hasTarget(schedule, "telegram", chatId)) {
         return ctx.reply("Schedule not found or not associated with this chat.");
     }
 
     // Check if user has permission to delete this schedule
-    const userId = ctx.from?.id.toString();
-    if (!userId) {
+    const requester = resolveRequester(ctx);
+    if (!requester) {
         return ctx.reply("Could not determine user ID. Please try again.");
     }
 
-    // Determine if user is an admin (simplify the check to avoid type errors)
-    const isAdmin = ctx.chat?.type === "private" || false;
-
-    const canManage = scheduleManager.canUserManageSchedule(scheduleId, "telegram", userId, isAdmin);
+    const canManage = await schedulerService.canUserManageSchedule(schedule, "telegram", requester.userId);
 
     if (!canManage) {
         return ctx.reply(
-            "You don't have permission to delete this schedule. Only the creator or admins can delete it."
+            "You don't have permission to delete this schedule. Only the creator, schedule managers or admins can delete it."
         );
     }
 
+    const linked = describeLinkedSchedule(schedule);
+    if (linked) {
+        return ctx.reply(linked);
+    }
+
     try {
         // Stop the scheduled task
         schedulerService.removeSchedule(scheduleId);
@@ -306,16 +442,152 @@ async function handleDeleteSchedule(ctx: Context, schedulerService: SchedulerSer
 
         return ctx.reply(`Schedule "${schedule.name}" deleted successfully.`);
     } catch (error) {
-        console.error("Error deleting schedule:", error);
+        commandLogger(ctx).error("Error deleting schedule", { scheduleId, error });
         return ctx.reply("There was an error deleting the schedule. Please try again later.");
     }
 }
 
+/**
+ * Handle the schedule_edit command
+ * Format: /schedule_edit [id] [type=...] [cron=...] [name=...] [chat=...]
+ */
+async function handleEditSchedule(ctx: Context, schedulerService: SchedulerService) {
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
+    const args = parseCommandArguments(message);
+    args.shift(); // Remove command name
+
+    const type = extractOption(args, ["type"])?.toLowerCase();
+    const frequency = extractOption(args, ["cron", "frequency"]);
+    const newName = extractOption(args, ["name"]);
+    const targetChatId = extractOption(args, ["chat"]);
+
+    if (args.length < 1) {
+        return ctx.reply(
+            "Usage: /schedule_edit <id> key=value...\n\n" +
+                "Keys:\n" +
+                "  type=artist|nft|nft,artist|nft:70,artist:30 - what to post\n" +
+                '  cron="every 6 hours"                        - frequency or cron expression\n' +
+                '  name="New Name"                             - schedule name\n' +
+                "  chat=<chat id>                              - move posts to another chat you administer\n\n" +
+                'Example: /schedule_edit telegram-12345 cron=hourly name="Hourly NFT"'
+        );
+    }
+
+    const scheduleId = args[0];
+    const chatId = ctx.chat?.id.toString();
+
+    if (!chatId) {
+        return ctx.reply("Could not determine chat ID. Please try again.");
+    }
+
+    // Get the schedule
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    // Check if schedule exists and belongs to this chat
+    if (!schedule || !hasTarget(schedule, "telegram", chatId)) {
+        return ctx.reply("Schedule not found or not associated with this chat.");
+    }
+
+    const linked = describeLinkedSchedule(schedule);
+    if (linked) {
+        return ctx.reply(linked);
+    }
+
+    // Check if user has permission to manage this schedule
+    const requester = resolveRequester(ctx);
+    if (!requester) {
+        return ctx.reply("Could not determine user ID. Please try again.");
+    }
+
+    const canManage = await schedulerService.canUserManageSchedule(schedule, "telegram", requester.userId);
+
+    if (!canManage) {
+        return ctx.reply(
+            "You don't have permission to edit this schedule. Only the creator, schedule managers or admins can manage it."
+        );
+    }
+
+    if (type === undefined && frequency === undefined && newName === undefined && targetChatId === undefined) {
+        return ctx.reply("Nothing to change. Use type=, cron=, name= or chat=.");
+    }
+
+    // Work on a copy so a rejected edit leaves the schedule untouched
+    const updated = { ...schedule };
+    const changes: string[] = [];
+
+    if (frequency !== undefined) {
+        const cronExpression = parseFrequency(frequency);
+        if (!isValidCron(cronExpression)) {
+            return ctx.reply(
+                "Invalid frequency. Use hourly, daily, weekly, every X minutes, every X hours or a cron expression."
+            );
+        }
+        updated.cronExpression = cronExpression;
+        changes.push(`Schedule: ${cronExpression}`);
+    }
+
+    if (type !== undefined) {
+        // The type is either artist, nft or a mix like "nft,artist" / "nft:70,artist:30"
+        if (isContentMixInput(type)) {
+            const parsed = parseContentMix(type);
+            if (!parsed.mix) {
+                return ctx.reply(`Invalid mix: ${parsed.error}`);
+            }
+            updated.mix = parsed.mix;
+            updated.fetchType = parsed.mix.entries[0].type;
+        } else if (type === "artist" || type === "nft") {
+            updated.mix = undefined;
+            updated.fetchType = type;
+        } else {
+            return ctx.reply(
+                "Invalid type. Please use 'artist', 'nft' or a mix like 'nft,artist' or 'nft:70,artist:30'."
+            );
+        }
+        changes.push(`Type: ${describeContent(updated)}`);
+    }
+
+    if (newName !== undefined) {
+        if (!newName.trim()) {
+            return ctx.reply("The name can't be empty.");
+        }
+        updated.name = newName;
+        changes.push(`Name: ${newName}`);
+    }
+
+    if (targetChatId !== undefined && targetChatId !== chatId) {
+        // Only move posts into chats the user administers
+        const target: ScheduleTarget = { platform: "telegram", target: targetChatId };
+        if (!(await schedulerService.isTargetAdmin(requester.userId, target))) {
+            return ctx.reply(
+                "You can only move a schedule to a chat where you are an admin and the bot has been added."
+            );
+        }
+        updated.targets = withTarget(updated, target, { platform: "telegram", target: chatId }).targets;
+        changes.push(`Chat: ${targetChatId}`);
+    }
+
+    if (changes.length === 0) {
+        return ctx.reply(`Schedule "${schedule.name}" already has those settings.`);
+    }
+
+    try {
+        await scheduleManager.updateSchedule(updated);
+
+        // Re-register the task so the changes apply without a restart
+        schedulerService.updateSchedule(updated);
+
+        return ctx.reply(`✅ Schedule "${updated.name}" updated:\n\n${changes.join("\n")}\n\nID: ${updated.id}`);
+    } catch (error) {
+        commandLogger(ctx).error("Error editing schedule", { scheduleId, error });
+        return ctx.reply("There was an error editing the schedule. Please try again later.");
+    }
+}
+
 /**
  * Handle the schedule_pause command
  */
 async function handlePauseSchedule(ctx: Context, schedulerService: SchedulerService) {
-    const message = ctx.message && "text" in ctx.message ? ctx.message.text : "";
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
     const args = parseCommandArguments(message);
     args.shift(); // Remove command name
 
@@ -334,23 +606,27 @@ async function handlePauseSchedule(ctx: Context, schedulerService: SchedulerServ
     const schedule = scheduleManager.getSchedule(scheduleId);
 
     // Check if schedule exists and belongs to this chat
-    if (!schedule || schedule.telegram?.chatId !== chatId) {
+    if (!schedule || !hasTarget(schedule, "telegram", chatId)) {
         return ctx.reply("Schedule not found or not associated with this chat.");
     }
 
+    const linked = describeLinkedSchedule(schedule);
+    if (linked) {
+        return ctx.reply(linked);
+    }
+
     // Check if user has permission to manage this schedule
-    const userId = ctx.from?.id.toString();
-    if (!userId) {
+    const requester = resolveRequester(ctx);
+    if (!requester) {
         return ctx.reply("Could not determine user ID. Please try again.");
     }
 
-    // Determine if user is an admin (simplify the check to avoid type errors)
-    const isAdmin = ctx.chat?.type === "private" || false;
-
-    const canManage = scheduleManager.canUserManageSchedule(scheduleId, "telegram", userId, isAdmin);
+    const canManage = await schedulerService.canUserManageSchedule(schedule, "telegram", requester.userId);
 
     if (!canManage) {
-        return ctx.reply("You don't have permission to pause this schedule. Only the creator or admins can manage it.");
+        return ctx.reply(
+            "You don't have permission to pause this schedule. Only the creator, schedule managers or admins can manage it."
+        );
     }
 
     // If already paused
@@ -368,7 +644,7 @@ async function handlePauseSchedule(ctx: Context, schedulerService: SchedulerServ
 
         return ctx.reply(`Schedule "${schedule.name}" paused successfully.`);
     } catch (error) {
-        console.error("Error pausing schedule:", error);
+        commandLogger(ctx).error("Error pausing schedule", { scheduleId, error });
         return ctx.reply("There was an error pausing the schedule. Please try again later.");
     }
 }
@@ -377,7 +653,7 @@ async function handlePauseSchedule(ctx: Context, schedulerService: SchedulerServ
  * Handle the schedule_resume command
  */
 async function handleResumeSchedule(ctx: Context, schedulerService: SchedulerService) {
-    const message = ctx.message && "text" in ctx.message ? ctx.message.text : "";
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
     const args = parseCommandArguments(message);
     args.shift(); // Remove command name
 
@@ -396,24 +672,26 @@ async function handleResumeSchedule(ctx: Context, schedulerService: SchedulerSer
     const schedule = scheduleManager.getSchedule(scheduleId);
 
     // Check if schedule exists and belongs to this chat
-    if (!schedule || schedule.telegram?.chatId !== chatId) {
+    if (!schedule || !hasTarget(schedule, "telegram", chatId)) {
         return ctx.reply("Schedule not found or not associated with this chat.");
     }
 
+    const linked = describeLinkedSchedule(schedule);
+    if (linked) {
+        return ctx.reply(linked);
+    }
+
     // Check if user has permission to manage this schedule
-    const userId = ctx.from?.id.toString();
-    if (!userId) {
+    const requester = resolveRequester(ctx);
+    if (!requester) {
         return ctx.reply("Could not determine user ID. Please try again.");
     }
 
-    // Determine if user is an admin (simplify the check to avoid type errors)
-    const isAdmin = ctx.chat?.type === "private" || false;
-
-    const canManage = scheduleManager.canUserManageSchedule(scheduleId, "telegram", userId, isAdmin);
+    const canManage = await schedulerService.canUserManageSchedule(schedule, "telegram", requester.userId);
 
     if (!canManage) {
         return ctx.reply(
-            "You don't have permission to resume this schedule. Only the creator or admins can manage it."
+            "You don't have permission to resume this schedule. Only the creator, schedule managers or admins can manage it."
         );
     }
 
@@ -424,15 +702,361 @@ async function handleResumeSchedule(ctx: Context, schedulerService: SchedulerSer
 
     try {
         // Update the schedule to enabled
-        schedule.enabled = true;
-        await scheduleManager.updateSchedule(schedule);
+        await scheduleManager.resumeSchedule(schedule.id);
 
         // Add to scheduler service
         schedulerService.addSchedule(schedule);
 
         return ctx.reply(`Schedule "${schedule.name}" resumed successfully.`);
     } catch (error) {
-        console.error("Error resuming schedule:", error);
+        commandLogger(ctx).error("Error resuming schedule", { scheduleId, error });
         return ctx.reply("There was an error resuming the schedule. Please try again later.");
     }
 }
+
+/**
+ * Handle the schedule_run command
+ * Posts from the schedule straight away and reports how each target fared
+ */
+async function handleRunSchedule(ctx: Context, schedulerService: SchedulerService) {
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
+    const args = parseCommandArguments(message);
+    args.shift(); // Remove command name
+
+    if (args.length < 1) {
+        return ctx.reply("Please specify a schedule ID to run.\nExample: /schedule_run telegram-12345");
+    }
+
+    const scheduleId = args[0];
+    const chatId = ctx.chat?.id.toString();
+
+    if (!chatId) {
+        return ctx.reply("Could not determine chat ID. Please try again.");
+    }
+
+    // Get the schedule
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    // Check if schedule exists and belongs to this chat
+    if (!schedule || !hasTarget(schedule, "telegram", chatId)) {
+        return ctx.reply("Schedule not found or not associated with this chat.");
+    }
+
+    const linked = describeLinkedSchedule(schedule);
+    if (linked) {
+        return ctx.reply(linked);
+    }
+
+    // Check if user has permission to manage this schedule
+    const requester = resolveRequester(ctx);
+    if (!requester) {
+        return ctx.reply("Could not determine user ID. Please try again.");
+    }
+
+    const canManage = await schedulerService.canUserManageSchedule(schedule, "telegram", requester.userId);
+
+    if (!canManage) {
+        return ctx.reply(
+            "You don't have permission to run this schedule. Only the creator, schedule managers or admins can manage it."
+        );
+    }
+
+    try {
+        const run = await schedulerService.runSchedule(schedule, { manual: true });
+
+        let reply = `${run.success ? "✅" : "❌"} Ran "${schedule.name}" (${run.fetchType})\n`;
+        if (run.itemId) {
+            reply += `Item: ${run.itemId}\n`;
+        }
+        reply += "\n";
+        reply +=
+            run.targets.length > 0
+                ? run.targets
+                      .map((target) =>
+                          target.success
+                              ? `✅ ${target.platform} ${target.target}`
+                              : `❌ ${target.platform} ${target.target} - ${target.error || "unknown error"}`
+                      )
+                      .join("\n")
+                : `Nothing was sent: ${run.error || "unknown error"}`;
+
+        return ctx.reply(reply);
+    } catch (error) {
+        commandLogger(ctx).error("Error running schedule", { scheduleId, error });
+        return ctx.reply("There was an error running the schedule. Please try again later.");
+    }
+}
+
+/**
+ * Handle the schedule_link command
+ * Format: /schedule_link [code] - the code comes from /schedule link on Discord
+ */
+async function handleLinkSchedule(ctx: Context, schedulerService: SchedulerService) {
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
+    const args = parseCommandArguments(message);
+    args.shift(); // Remove command name
+
+    if (args.length < 1) {
+        return ctx.reply(
+            "Please specify a link code.\nRun /schedule link in the Discord channel to get one, then send /schedule_link <code> here."
+        );
+    }
+
+    const chatId = ctx.chat?.id.toString();
+    if (!chatId) {
+        return ctx.reply("Could not determine chat ID. Please try again.");
+    }
+
+    const requester = resolveRequester(ctx);
+    if (!requester) {
+        return ctx.reply("Could not determine user ID. Please try again.");
+    }
+
+    // The Discord admin consented by issuing the code; this chat's admin consents by redeeming it
+    if (!(await schedulerService.isTargetAdmin(requester.userId, { platform: "telegram", target: chatId }))) {
+        return ctx.reply("Only admins of this chat can link a schedule to it.");
+    }
+
+    const scheduleId = scheduleManager.redeemLinkCode(args[0]);
+    const schedule = scheduleId ? scheduleManager.getSchedule(scheduleId) : undefined;
+
+    if (!schedule) {
+        return ctx.reply("That link code is invalid or has expired. Run /schedule link on Discord to get a new one.");
+    }
+
+    if (getTarget(schedule, "telegram")) {
+        return ctx.reply(`Schedule "${schedule.name}" is already linked to a Telegram chat.`);
+    }
+
+    try {
+        const updated = withTarget(schedule, { platform: "telegram", target: chatId });
+        await scheduleManager.updateSchedule(updated);
+        schedulerService.updateSchedule(updated);
+
+        return ctx.reply(
+            `🔗 Linked! "${schedule.name}" will now post here as well as on Discord.\n\n` +
+                `Use /schedule_unlink ${schedule.id} to stop it.`
+        );
+    } catch (error) {
+        commandLogger(ctx).error("Error linking schedule", { scheduleId, error });
+        return ctx.reply("There was an error linking the schedule. Please try again later.");
+    }
+}
+
+/**
+ * Handle the schedule_unlink command
+ * Detaches this chat from a schedule that is linked from Discord
+ */
+async function handleUnlinkSchedule(ctx: Context, schedulerService: SchedulerService) {
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
+    const args = parseCommandArguments(message);
+    args.shift(); // Remove command name
+
+    if (args.length < 1) {
+        return ctx.reply("Please specify a schedule ID to unlink.\nExample: /schedule_unlink discord-12345");
+    }
+
+    const scheduleId = args[0];
+    const chatId = ctx.chat?.id.toString();
+
+    if (!chatId) {
+        return ctx.reply("Could not determine chat ID. Please try again.");
+    }
+
+    // Get the schedule
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    // Check if schedule exists and belongs to this chat
+    if (!schedule || !hasTarget(schedule, "telegram", chatId)) {
+        return ctx.reply("Schedule not found or not associated with this chat.");
+    }
+
+    if (!getTarget(schedule, "discord")) {
+        return ctx.reply(`Schedule "${schedule.name}" is not linked to Discord. Use /schedule_delete to remove it.`);
+    }
+
+    const requester = resolveRequester(ctx);
+    if (!requester) {
+        return ctx.reply("Could not determine user ID. Please try again.");
+    }
+
+    const canManage = await schedulerService.canUserManageSchedule(schedule, "telegram", requester.userId);
+
+    if (!canManage) {
+        return ctx.reply("Only admins of this chat can unlink a schedule from it.");
+    }
+
+    try {
+        const updated = withoutTarget(schedule, "telegram", chatId);
+        await scheduleManager.updateSchedule(updated);
+        schedulerService.updateSchedule(updated);
+
+        return ctx.reply(`Schedule "${schedule.name}" will no longer post here. It keeps posting on Discord.`);
+    } catch (error) {
+        commandLogger(ctx).error("Error unlinking schedule", { scheduleId, error });
+        return ctx.reply("There was an error unlinking the schedule. Please try again later.");
+    }
+}
+
+/**
+ * Handle the schedule_permissions command
+ * Format: /schedule_permissions [members=yes|no] [add_creator=<user id>] [remove_creator=<user id>]
+ *         [add_manager=<user id>] [remove_manager=<user id>]
+ */
+async function handlePermissions(ctx: Context, schedulerService: SchedulerService) {
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
+    const args = parseCommandArguments(message);
+    args.shift(); // Remove command name
+
+    const chatId = ctx.chat?.id.toString();
+    if (!chatId) {
+        return ctx.reply("Could not determine chat ID. Please try again.");
+    }
+
+    const requester = resolveRequester(ctx);
+    if (!requester) {
+        return ctx.reply("Could not determine user ID. Please try again.");
+    }
+
+    if (!(await schedulerService.isTargetAdmin(requester.userId, { platform: "telegram", target: chatId }))) {
+        return ctx.reply("Only admins of this chat can view or change schedule permissions.");
+    }
+
+    const members = extractOption(args, ["members"])?.toLowerCase();
+    const addCreator = extractOption(args, ["add_creator"]);
+    const removeCreator = extractOption(args, ["remove_creator"]);
+    const addManager = extractOption(args, ["add_manager"]);
+    const removeManager = extractOption(args, ["remove_manager"]);
+
+    if (members !== undefined && !["yes", "no"].includes(members)) {
+        return ctx.reply("Invalid value for members. Please use members=yes or members=no.");
+    }
+
+    // Telegram has no roles, so the lists hold numeric user IDs
+    const userIds = [addCreator, removeCreator, addManager, removeManager].filter((id) => id !== undefined);
+    if (userIds.some((id) => !/^-?\d+$/.test(id!))) {
+        return ctx.reply("Please give numeric Telegram user IDs, e.g. add_manager=123456789.");
+    }
+
+    const policy = scheduleManager.getPolicy("telegram", chatId);
+    const changed = members !== undefined || userIds.length > 0;
+
+    if (changed) {
+        if (members !== undefined) policy.membersCanCreate = members === "yes";
+        if (addCreator && !policy.creators.includes(addCreator)) policy.creators.push(addCreator);
+        if (removeCreator) policy.creators = policy.creators.filter((id) => id !== removeCreator);
+        if (addManager && !policy.managers.includes(addManager)) policy.managers.push(addManager);
+        if (removeManager) policy.managers = policy.managers.filter((id) => id !== removeManager);
+
+        try {
+            await scheduleManager.setPolicy(policy);
+        } catch (error) {
+            commandLogger(ctx).error("Error saving schedule permissions", { error });
+            return ctx.reply("There was an error saving the permissions. Please try again later.");
+        }
+    }
+
+    return ctx.reply(
+        `🔐 Schedule permissions${changed ? " updated" : ""}\n\n` +
+            `Members can create: ${policy.membersCanCreate ? "Yes" : "No"}\n` +
+            `Creators: ${policy.creators.length > 0 ? policy.creators.join(", ") : "None"}\n` +
+            `Managers: ${policy.managers.length > 0 ? policy.managers.join(", ") : "None"}\n\n` +
+            "Chat admins can always create and manage schedules.\n" +
+            "Change with members=yes|no, add_creator=, remove_creator=, add_manager= or remove_manager= and a user ID."
+    );
+}
+
+/**
+ * Handle the schedule_status command
+ */
+async function handleScheduleStatus(ctx: Context, schedulerService: SchedulerService) {
+    const message = ctx.msg && "text" in ctx.msg ? ctx.msg.text : "";
+    const args = parseCommandArguments(message);
+    args.shift(); // Remove command name
+
+    if (args.length < 1) {
+        return ctx.reply("Please specify a schedule ID to check.\nExample: /schedule_status telegram-12345");
+    }
+
+    const scheduleId = args[0];
+    const chatId = ctx.chat?.id.toString();
+
+    if (!chatId) {
+        return ctx.reply("Could not determine chat ID. Please try again.");
+    }
+
+    // Get the schedule
+    const schedule = scheduleManager.getSchedule(scheduleId);
+
+    // Check if schedule exists and belongs to this chat
+    if (!schedule || !hasTarget(schedule, "telegram", chatId)) {
+        return ctx.reply("Schedule not found or not associated with this chat.");
+    }
+
+    const runs = scheduleManager.getRunHistory(scheduleId, STATUS_RUN_COUNT);
+    const failureStreak = scheduleManager.getFailureStreak(scheduleId);
+    const nextRun = schedulerService.getNextRun(schedule);
+
+    let reply = `📊 Status: ${schedule.name}\n\n`;
+    reply += `Status: ${describeStatus(schedule, schedulerService)}\n`;
+    reply += `Next post: ${nextRun ? formatTimestamp(nextRun.getTime()) : "Not scheduled"}\n`;
+    reply += `Failure streak: ${failureStreak}\n\n`;
+    reply += `Last ${STATUS_RUN_COUNT} runs:\n`;
+    reply += runs.length > 0 ? runs.map(formatRun).join("\n") : "This schedule has not run yet.";
+
+    return ctx.reply(reply);
+}
+
+/**
+ * Explain why a schedule linked from Discord can't be changed here
+ * Linked schedules belong to their Discord channel; this chat can only detach itself
+ * @returns The reply to send, or undefined when the schedule was created in Telegram
+ */
+function describeLinkedSchedule(schedule: ScheduleConfig): string | undefined {
+    if (isCreatedOn(schedule, "telegram")) {
+        return undefined;
+    }
+    return (
+        `Schedule "${schedule.name}" is linked from Discord and can only be changed there. ` +
+        `Use /schedule_unlink ${schedule.id} to stop posting it here.`
+    );
+}
+
+/**
+ * Describe whether a schedule is running, paused or inactive, e.g. because it can't be scheduled
+ */
+function describeStatus(schedule: ScheduleConfig, schedulerService: SchedulerService): string {
+    if (!schedule.enabled) {
+        return "⏸️ Paused";
+    }
+    const inactiveReason = schedulerService.getInactiveReason(schedule);
+    return inactiveReason ? `⚠️ Inactive (${inactiveReason})` : "✅ Active";
+}
+
+/**
+ * Format a timestamp as a UTC date and time
+ */
+function formatTimestamp(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 16).replace("T", " ") + " UTC";
+}
+
+/**
+ * Format a schedule run as a single line for the status reply
+ */
+function formatRun(run: ScheduleRun): string {
+    const when = formatTimestamp(run.timestamp);
+    const item = run.itemId ? ` ${run.itemId}` : "";
+    const manual = run.manual ? " (manual)" : "";
+
+    if (run.error && run.targets.length === 0) {
+        return `❌ ${when}${manual}${item} - ${run.error}`;
+    }
+
+    const targets = run.targets
+        .map((target) =>
+            target.success ? `${target.platform} ✅` : `${target.platform} ❌ (${target.error || "unknown error"})`
+        )
+        .join(", ");
+
+    return `${run.success ? "✅" : "❌"} ${when}${manual}${item} - ${targets}`;
+}
@@ -1,17 +1,40 @@
 import { Telegraf } from "telegraf";
-import { TELEGRAM_BOT_TOKEN } from "../config";
-import { MessageSender, SchedulerService } from "../services/scheduler";
-import { FetchType } from "../types";
+import { TELEGRAM_BOT_TOKEN, DEDUPE_INTERACTIVE } from "../config";
+import { SchedulerService } from "../services/scheduler";
+import { ComponentHealth, FetchType, PostTarget, RichPost, ScheduleTarget } from "../types";
+import { PlatformAdapter, PlatformCapabilities, PlatformInfo } from "../platforms";
 import { ApiService } from "../services/api";
-import { registerScheduleCommands } from "./commands/schedule";
-
-export class TelegramBot implements MessageSender {
+import { ContentService } from "../services/content";
+import { HealthService } from "../services/health";
+import { renderTelegramMessage } from "../utils/presenter";
+import { commandInvocations } from "../utils/metrics";
+import { logger } from "../utils/logger";
+import { registerScheduleCommands, SCHEDULE_HELP } from "./commands/schedule";
+import { registerBotStatusCommand } from "./commands/botstatus";
+import { isChatAdmin } from "./admins";
+
+const log = logger.child({ platform: "telegram" });
+
+// Numeric chat IDs (negative for groups and channels) or public @usernames
+const CHAT_ID_PATTERN = /^(-?\d+|@\w{5,})$/;
+
+export const TELEGRAM_PLATFORM: PlatformInfo = { id: "telegram", name: "Telegram", targetKey: "chatId" };
+
+export class TelegramBot implements PlatformAdapter {
+    readonly id = TELEGRAM_PLATFORM.id;
+    readonly name = TELEGRAM_PLATFORM.name;
+    readonly targetKey = TELEGRAM_PLATFORM.targetKey;
+    readonly capabilities: PlatformCapabilities = { linkedSchedules: true };
     private bot: Telegraf;
     private apiService: ApiService;
+    private contentService: ContentService;
     private schedulerService?: SchedulerService;
+    private launchState: "stopped" | "starting" | "polling" | "failed" = "stopped";
+    private launchError?: string;
 
     constructor(apiService: ApiService) {
         this.apiService = apiService;
+        this.contentService = new ContentService(apiService);
         this.bot = new Telegraf(TELEGRAM_BOT_TOKEN);
         // Set up commands immediately using the simpler approach from the example
         this.setupCommands();
@@ -29,6 +52,29 @@ export class TelegramBot implements MessageSender {
         }
     }
 
+    /**
+     * Set the health service and register the /botstatus command
+     */
+    setHealthService(healthService: HealthService) {
+        registerBotStatusCommand(this.bot, healthService);
+    }
+
+    /**
+     * Report whether the bot is polling Telegram for updates
+     */
+    getHealth(): ComponentHealth {
+        switch (this.launchState) {
+            case "polling":
+                return { status: "ok", detail: "Polling for updates" };
+            case "starting":
+                return { status: "down", detail: "Connecting to Telegram" };
+            case "failed":
+                return { status: "down", detail: `Polling failed: ${this.launchError}` };
+            default:
+                return { status: "down", detail: "Not running" };
+        }
+    }
+
     /**
      * Set up the bot's commands - using the simpler approach from the example
      */
@@ -42,24 +88,21 @@ export class TelegramBot implements MessageSender {
         // Command to get a random NFT
         this.bot.command("random_nft", (ctx) => this.handleRandomCommand(ctx, "nft"));
 
-        // Help command
+        // Help command, the only /help handler; the schedule commands' section comes from their module
         this.bot.help((ctx) =>
             ctx.reply(
                 "Available commands:\n" +
                     "/random_artist - Get a random artist\n" +
                     "/random_nft - Get a random NFT\n" +
-                    "/schedule_create [artist|nft] [cron] [name] - Create a new scheduled post\n" +
-                    "/schedule_list - List all schedules for this chat\n" +
-                    "/schedule_delete [id] - Delete a schedule by ID\n" +
-                    "/schedule_pause [id] - Pause a schedule\n" +
-                    "/schedule_resume [id] - Resume a paused schedule\n" +
-                    "/help - Show this help message"
+                    "/botstatus - Show whether the bot and its services are healthy (admins only)\n" +
+                    "/help - Show this help message\n\n" +
+                    SCHEDULE_HELP
             )
         );
 
         // Simple error handling
-        this.bot.catch((err) => {
-            console.error("Telegram error:", err);
+        this.bot.catch((err, ctx) => {
+            log.error("Telegram error", { chatId: ctx.chat ? String(ctx.chat.id) : undefined, error: err });
         });
     }
 
@@ -67,194 +110,43 @@ export class TelegramBot implements MessageSender {
      * Handle the random command (artist or NFT)
      */
     private async handleRandomCommand(ctx: any, type: FetchType) {
+        commandInvocations.inc({ platform: "telegram", command: `random_${type}` });
+
         try {
             // Show typing indicator
             await ctx.replyWithChatAction("typing");
 
-            let data;
-
-            if (type === "artist") {
-                data = await this.apiService.getRandomArtist();
-                if (data) {
-                    // Format artist information with proper Markdown for Telegram
-                    const caption = this.formatArtistCaption(data);
-
-                    if (data.imageUrl) {
-                        // Send image with caption if available
-                        await ctx.replyWithPhoto(
-                            { url: data.imageUrl },
-                            {
-                                caption: caption,
-                                parse_mode: "HTML",
-                                reply_markup: {
-                                    inline_keyboard: [
-                                        [
-                                            {
-                                                text: "View on REJKT",
-                                                url: data.profileLink || "https://rejkt.xyz",
-                                            },
-                                        ],
-                                    ],
-                                },
-                            }
-                        );
-                    } else {
-                        // Send text only if no image
-                        await ctx.reply(caption, {
-                            parse_mode: "HTML",
-                            reply_markup: {
-                                inline_keyboard: [
-                                    [
-                                        {
-                                            text: "View on REJKT",
-                                            url: data.profileLink || "https://rejkt.xyz",
-                                        },
-                                    ],
-                                ],
-                            },
-                        });
-                    }
-                }
-            } else {
-                data = await this.apiService.getRandomNFT();
-                if (data) {
-                    // Format NFT information with proper Markdown for Telegram
-                    const caption = this.formatNFTCaption(data);
-
-                    if (data.imageUrl) {
-                        // Send image with caption if available
-                        await ctx.replyWithPhoto(
-                            { url: data.imageUrl },
-                            {
-                                caption: caption,
-                                parse_mode: "HTML",
-                                reply_markup: {
-                                    inline_keyboard: [
-                                        [
-                                            {
-                                                text: "View on Objkt",
-                                                url: data.referralLink || "https://objkt.com",
-                                            },
-                                        ],
-                                    ],
-                                },
-                            }
-                        );
-                    } else {
-                        // Send text only if no image
-                        await ctx.reply(caption, {
-                            parse_mode: "HTML",
-                            reply_markup: {
-                                inline_keyboard: [
-                                    [
-                                        {
-                                            text: "View on Objkt",
-                                            url: data.referralLink || "https://objkt.com",
-                                        },
-                                    ],
-                                ],
-                            },
-                        });
-                    }
-                }
-            }
-
-            if (!data) {
-                await ctx.reply(`Failed to fetch ${type} data. Please try again later.`);
+            // Optionally avoid items recently posted to this chat
+            const target: PostTarget = { platform: "telegram", target: String(ctx.chat.id) };
+            const item = DEDUPE_INTERACTIVE
+                ? await this.contentService.fetchFreshItem(type, [target])
+                : await this.contentService.fetchItem(type);
+
+            if (!item) {
+                await ctx.reply(
+                    this.apiService.isAvailable(type)
+                        ? `Failed to fetch ${type} data. Please try again later.`
+                        : "The REJKT service is temporarily unavailable. Please try again in a few minutes."
+                );
                 return;
             }
-        } catch (error) {
-            console.error(`Error handling random ${type} command:`, error);
-            await ctx.reply(`There was an error fetching the ${type}. Please try again later.`);
-        }
-    }
-
-    /**
-     * Format artist information with HTML for Telegram
-     */
-    private formatArtistCaption(data: any): string {
-        let caption = `<b>🎨 ${this.escapeHTML(data.name)}</b>\n\n`;
-
-        // Add wallet address
-        caption += `<b>Wallet:</b> ${this.escapeHTML(data.address)}\n\n`;
-
-        // Add links section if any social media or websites are available
-        if (data.website || data.twitter || data.tzdomain || data.telegram) {
-            caption += `<b>Links:</b>\n`;
-
-            if (data.website) {
-                caption += `• Website: ${this.escapeHTML(data.website)}\n`;
-            }
-
-            if (data.twitter) {
-                caption += `• Twitter: ${this.escapeHTML(data.twitter)}\n`;
-            }
 
-            if (data.tzdomain) {
-                caption += `• TZ Domain: ${this.escapeHTML(data.tzdomain)}\n`;
+            const { caption, ...extra } = renderTelegramMessage(item.post);
+            if (item.post.imageUrl) {
+                // Send image with caption if available
+                await ctx.replyWithPhoto({ url: item.post.imageUrl }, { ...extra, caption });
+            } else {
+                // Send text only if no image
+                await ctx.reply(caption, extra);
             }
 
-            if (data.telegram) {
-                caption += `• Telegram: ${this.escapeHTML(data.telegram)}\n`;
-            }
-
-            caption += "\n";
-        }
-
-        // Use bio as fallback if available
-        if (data.bio) {
-            // Limit bio to reasonable length for Telegram
-            const bioText = data.bio.length > 500 ? data.bio.substring(0, 500) + "..." : data.bio;
-            caption += `<b>Recent Work:</b>\n${this.escapeHTML(bioText)}\n\n`;
-        }
-
-        caption += `<i>REJKT Bot • Artist Showcase • ${new Date().toLocaleDateString()}</i>`;
-
-        return caption;
-    }
-
-    /**
-     * Format NFT information with HTML for Telegram
-     */
-    private formatNFTCaption(data: any): string {
-        let caption = `<b>🖼️ ${this.escapeHTML(data.name)}</b>\n\n`;
-
-        if (data.description) {
-            // Limit description to reasonable length for Telegram
-            const descText =
-                data.description.length > 800 ? data.description.substring(0, 800) + "..." : data.description;
-            caption += `${this.escapeHTML(descText)}\n\n`;
-        }
-
-        if (data.price) {
-            caption += `<b>Price:</b> ${this.escapeHTML(data.price)}\n\n`;
-        }
-
-        // Add seller info if available
-        if (data.seller) {
-            caption += `<b>Creator:</b> ${this.escapeHTML(data.seller.alias)}\n`;
-            caption += `<b>Wallet:</b> ${this.escapeHTML(data.seller.address)}\n\n`;
-            if (data.seller.website || data.seller.twitter || data.seller.tzdomain || data.seller.telegram) {
-                caption += `<b>Links:</b>\n`;
-                if (data.seller.website) caption += `• Website: ${this.escapeHTML(data.seller.website)}\n`;
-                if (data.seller.twitter) caption += `• Twitter: ${this.escapeHTML(data.seller.twitter)}\n`;
-                if (data.seller.tzdomain) caption += `• TZ Domain: ${this.escapeHTML(data.seller.tzdomain)}\n`;
-                if (data.seller.telegram) caption += `• Telegram: ${this.escapeHTML(data.seller.telegram)}\n`;
-                caption += `\n`;
+            if (DEDUPE_INTERACTIVE) {
+                await this.contentService.recordPosted(target, item);
             }
+        } catch (error) {
+            log.error(`Error handling random ${type} command`, { chatId: String(ctx.chat?.id), error });
+            await ctx.reply(`There was an error fetching the ${type}. Please try again later.`);
         }
-
-        caption += `<i>REJKT Bot • NFT Showcase • ${new Date().toLocaleDateString()}</i>`;
-
-        return caption;
-    }
-
-    /**
-     * Escape HTML special characters to prevent injection
-     */
-    private escapeHTML(text: string): string {
-        if (!text) return "";
-        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
     }
 
     /**
@@ -267,12 +159,23 @@ export class TelegramBot implements MessageSender {
                 throw new Error("Invalid Telegram bot token format");
             }
 
-            console.log("Starting Telegram bot...");
-
-            // Launch with the simplest possible approach - exactly like the example
-            this.bot.launch();
-
-            console.log("Telegram bot launched successfully");
+            log.info("Starting Telegram bot...");
+
+            // launch() only settles once polling ends, so track its state rather than awaiting it
+            this.launchState = "starting";
+            this.bot
+                .launch(() => {
+                    this.launchState = "polling";
+                    log.info("Telegram bot launched successfully");
+                })
+                .then(() => {
+                    this.launchState = "stopped";
+                })
+                .catch((error) => {
+                    this.launchState = "failed";
+                    this.launchError = error instanceof Error ? error.message : String(error);
+                    log.error("Telegram bot stopped polling", { error });
+                });
 
             // Enable graceful stop
             process.once("SIGINT", () => this.bot.stop("SIGINT"));
@@ -280,7 +183,7 @@ export class TelegramBot implements MessageSender {
 
             return Promise.resolve(); // Return a resolved promise for async compatibility
         } catch (error) {
-            console.error("Error starting Telegram bot:", error instanceof Error ? error.message : String(error));
+            log.error("Error starting Telegram bot", { error: error instanceof Error ? error.message : String(error) });
             return Promise.reject(error);
         }
     }
@@ -290,21 +193,54 @@ export class TelegramBot implements MessageSender {
      */
     async stop() {
         this.bot.stop();
-        console.log("Telegram bot stopped");
+        log.info("Telegram bot stopped");
     }
 
     /**
-     * Implement the MessageSender interface to send a message to a Telegram chat
+     * Check that a chat exists and the bot can see it
      */
-    async sendMessage(content: string, chatId?: string): Promise<void> {
+    async validateTarget(target: ScheduleTarget): Promise<string | undefined> {
+        if (!CHAT_ID_PATTERN.test(target.target)) {
+            return `"${target.target}" is not a Telegram chat ID`;
+        }
+
         try {
-            if (!chatId || chatId === "your_telegram_chat_id_here") {
-                console.log("No valid Telegram chat ID provided for scheduled message, skipping...");
-                return;
+            await this.bot.telegram.getChat(target.target);
+            return undefined;
+        } catch (error) {
+            return `Telegram chat ${target.target} was not found, or the bot is not a member`;
+        }
+    }
+
+    /**
+     * Check whether a user is an admin (or the creator) of a chat
+     */
+    async isTargetAdmin(userId: string, target: ScheduleTarget): Promise<boolean> {
+        return isChatAdmin(this.bot.telegram, target.target, userId);
+    }
+
+    /**
+     * Implement the PlatformAdapter interface to send a rich post (photo + caption + link button) to a Telegram chat
+     */
+    async sendPost(post: RichPost, chatId: string): Promise<void> {
+        // Throw rather than skip, so an empty or placeholder chat ID counts as a failed post
+        if (!CHAT_ID_PATTERN.test(chatId)) {
+            throw new Error(`"${chatId}" is not a Telegram chat ID`);
+        }
+
+        const { caption, ...extra } = renderTelegramMessage(post);
+
+        try {
+            if (post.imageUrl) {
+                // Send image with caption if available
+                await this.bot.telegram.sendPhoto(chatId, { url: post.imageUrl }, { ...extra, caption });
+            } else {
+                // Send text only if no image
+                await this.bot.telegram.sendMessage(chatId, caption, extra);
             }
-            await this.bot.telegram.sendMessage(chatId, content);
         } catch (error) {
-            console.error("Error sending message to Telegram:", error);
+            log.error("Error sending post to Telegram", { chatId, error });
+            throw error; // Re-throw the error so the caller knows the send failed
         }
     }
 }
@@ -2,7 +2,7 @@
 
 export interface ApiResponse {
     success: boolean;
-    data: any;
+    data: unknown;
     error?: string;
 }
 
@@ -116,6 +116,7 @@ export interface NFTListing {
     description?: string;
     imageUrl?: string;
     price?: string;
+    priceXtz?: number; // Raw listing price in microtez
     referralLink?: string; // Link to view listing on Objkt
     token?: Token;
     seller?: Artist;
@@ -123,28 +124,165 @@ export interface NFTListing {
 
 export type FetchType = "artist" | "nft";
 
+// Several content types for one schedule, either taken in turn or picked at random by weight
+export interface ContentMix {
+    mode: "rotate" | "weighted";
+    entries: { type: FetchType; weight?: number }[]; // In rotation order; weights are relative
+    position?: number; // Next entry for "rotate", persisted so the rotation survives restarts
+}
+
+// Restricts which artists/NFTs a schedule posts
+export interface ContentFilters {
+    minPrice?: number; // In tez, compared against the listing's price_xtz
+    maxPrice?: number; // In tez, compared against the listing's price_xtz
+    mimePrefixes?: string[]; // Allowed token.mime prefixes, e.g. "image/"
+    allowContracts?: string[]; // Only these fa_contract addresses
+    denyContracts?: string[]; // Never these fa_contract addresses
+    allowCreators?: string[]; // Only these creator addresses
+    denyCreators?: string[]; // Never these creator addresses
+}
+
+// Structured post used for scheduled and on-demand showcases
+export interface PostField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+export interface PostLink {
+    label: string;
+    url: string;
+}
+
+export interface RichPost {
+    title: string;
+    description?: string;
+    fields: PostField[];
+    imageUrl?: string;
+    thumbnailUrl?: string;
+    color?: number;
+    link?: PostLink; // Call-to-action button
+    footer?: string;
+}
+
+// What to do about runs missed while the bot was offline
+export type CatchUpPolicy = "skip" | "once" | "all";
+
+// ID of a chat platform, e.g. "discord"; the platforms the bot supports are listed in its PlatformRegistry
+export type PlatformId = string;
+
+export interface CatchUpConfig {
+    policy: CatchUpPolicy;
+    maxRuns?: number; // Cap for the "all" policy
+}
+
 export interface ScheduleConfig {
     id: string;
     name: string;
     cronExpression: string;
+    timezone?: string; // IANA time zone for the cron expression; server local time when unset
     enabled: boolean;
-    fetchType: FetchType;
+    fetchType: FetchType; // First type of the mix when one is set
+    mix?: ContentMix;
     createdAt: number;
+    lastRunAt?: number;
+    catchUp?: CatchUpConfig;
+    filters?: ContentFilters;
     createdBy?: {
-        platform: "discord" | "telegram";
+        platform: PlatformId;
         userId: string;
         username?: string;
     };
-    discord?: {
-        channelId: string;
-        guildId?: string;
-    };
-    telegram?: {
-        chatId: string;
-    };
+    targets: ScheduleTarget[]; // The first is where the schedule was created, later ones were linked to it
+}
+
+// A channel or chat that posts are sent to
+export interface PostTarget {
+    platform: PlatformId;
+    target: string; // Channel or chat ID
+}
+
+// A channel or chat that a schedule posts to
+export interface ScheduleTarget extends PostTarget {
+    scope?: string; // Where permission policies apply when it isn't the target itself, e.g. the Discord guild
+}
+
+// Fire times a schedule missed while the bot was offline, to be caught up at startup
+export interface MissedRuns {
+    schedule: ScheduleConfig;
+    runs: Date[];
+}
+
+// Outcome of delivering a scheduled post to one target
+export interface TargetResult extends PostTarget {
+    success: boolean;
+    error?: string;
+}
+
+// An item recently posted to a target, used to avoid reposting it
+export interface RecentPost extends PostTarget {
+    itemKey: string;
+    postedAt: number;
+}
+
+// A single execution of a schedule
+export interface ScheduleRun {
+    scheduleId: string;
+    timestamp: number;
+    fetchType: FetchType;
+    itemId?: string; // Item key of the posted content (see ContentItem.key)
+    manual?: boolean; // Triggered with /schedule run rather than by the cron expression
+    success: boolean;
+    error?: string; // Set when the run failed before delivery (e.g. fetch failure)
+    targets: TargetResult[];
+}
+
+// Who may create and manage schedules in a Discord guild or Telegram chat
+// Platform admins (Manage Server on Discord, chat admins on Telegram) can always do both
+export interface PermissionPolicy {
+    platform: PlatformId;
+    scope: string; // Guild ID on Discord, chat ID on Telegram
+    membersCanCreate: boolean; // When false, only the creators and managers below may create schedules
+    creators: string[]; // Discord role IDs or Telegram user IDs allowed to create schedules
+    managers: string[]; // Discord role IDs or Telegram user IDs allowed to manage anyone's schedules
+}
+
+// Differences between two versions of the schedule list, e.g. after the store was edited on disk
+export interface ScheduleChanges {
+    added: ScheduleConfig[];
+    removed: ScheduleConfig[];
+    updated: ScheduleConfig[];
+}
+
+// Health of the bot or one of its parts, as reported on /health and by /botstatus
+export type HealthStatus = "ok" | "degraded" | "down";
+
+export interface ComponentHealth {
+    status: HealthStatus | "disabled"; // Disabled for a platform this deployment doesn't run
+    detail: string; // Short explanation for people, e.g. "Logged in as REJKTbot#1234"
+    lastSuccessAt?: number; // Last successful fetch or send, for components that have one
+}
+
+export interface HealthReport {
+    status: HealthStatus; // Worst of the components, except that one working bot is enough to stay up
+    ready: boolean; // At least one bot can post
+    checkedAt: number;
+    uptimeSeconds: number;
+    activeTasks: number;
+    components: Record<PlatformId | "api" | "scheduler", ComponentHealth>; // One entry per known platform
 }
 
 export interface ScheduleStore {
     schedules: ScheduleConfig[];
+    runs?: ScheduleRun[];
+    recentPosts?: RecentPost[];
+    policies?: PermissionPolicy[];
     version: number;
 }
+
+// The part of the store a save changed, so backends that keep records apart can write only that record
+export type StoreChange =
+    | { kind: "schedule"; id: string } // Added, updated or deleted; a deleted schedule's runs go with it
+    | { kind: "run"; run: ScheduleRun } // Appended to the history, which may drop the schedule's oldest runs
+    | { kind: "post"; post: RecentPost } // Appended to the recent posts, which may drop expired ones
+    | { kind: "policy"; policy: PermissionPolicy };
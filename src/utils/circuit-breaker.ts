@@ -0,0 +1,96 @@
+import { logger } from "./logger";
+
+/**
+ * Simple circuit breaker for calls to an unreliable service.
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and calls are
+ * rejected until `cooldownMs` has passed. The next `halfOpenTrials` calls are then
+ * let through as trials (half-open) while the rest keep being rejected: a successful
+ * trial closes the circuit, a failed one opens it again.
+ */
+export class CircuitBreaker {
+    private consecutiveFailures = 0;
+    private openedAt?: number;
+    private trialsInFlight = 0;
+
+    constructor(
+        private readonly name: string,
+        private readonly failureThreshold: number,
+        private readonly cooldownMs: number,
+        private readonly halfOpenTrials = 1
+    ) {}
+
+    /**
+     * Current state of the circuit
+     */
+    get state(): "closed" | "open" | "half-open" {
+        if (this.openedAt === undefined) {
+            return "closed";
+        }
+        return Date.now() - this.openedAt >= this.cooldownMs ? "half-open" : "open";
+    }
+
+    /**
+     * Whether a call would be let through right now, without claiming a trial
+     */
+    canRequest(): boolean {
+        const state = this.state;
+        return state === "closed" || (state === "half-open" && this.trialsInFlight < this.halfOpenTrials);
+    }
+
+    /**
+     * Claim permission for a call; while half-open this uses up one of the trials
+     * Every call that was let through must report its outcome with recordSuccess, recordFailure or recordIgnored
+     * @returns Whether the call may go ahead
+     */
+    tryRequest(): boolean {
+        if (!this.canRequest()) {
+            return false;
+        }
+        if (this.state === "half-open") {
+            this.trialsInFlight++;
+        }
+        return true;
+    }
+
+    /**
+     * Record a successful call, closing the circuit
+     */
+    recordSuccess() {
+        if (this.openedAt !== undefined) {
+            logger.info(`Circuit "${this.name}" closed after successful trial request`);
+        }
+        this.consecutiveFailures = 0;
+        this.openedAt = undefined;
+        this.trialsInFlight = 0;
+    }
+
+    /**
+     * Record a call whose outcome says nothing about the service's health, e.g. a rejected request
+     * Leaves the failure count alone and gives back the trial it used while half-open
+     */
+    recordIgnored() {
+        if (this.trialsInFlight > 0) {
+            this.trialsInFlight--;
+        }
+    }
+
+    /**
+     * Record a failed call, opening the circuit once the threshold is reached
+     */
+    recordFailure() {
+        this.consecutiveFailures++;
+
+        // A failed trial request re-opens the circuit straight away
+        if (this.state === "half-open" || this.consecutiveFailures >= this.failureThreshold) {
+            if (this.state !== "open") {
+                logger.warn(
+                    `Circuit "${this.name}" opened after ${this.consecutiveFailures} consecutive failures, ` +
+                        `pausing requests for ${Math.round(this.cooldownMs / 1000)}s`
+                );
+            }
+            this.openedAt = Date.now();
+            this.trialsInFlight = 0;
+        }
+    }
+}
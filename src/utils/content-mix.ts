@@ -0,0 +1,146 @@
+import { ContentMix, FetchType, ScheduleConfig } from "../types";
+
+/**
+ * Helpers for schedules that post a mix of content types
+ */
+
+const TYPE_LABELS: { [key in FetchType]: string } = {
+    artist: "Artist",
+    nft: "NFT",
+};
+
+/**
+ * Check whether a value is a content type a mix can hold
+ */
+function isMixType(type: unknown): type is FetchType {
+    return type === "artist" || type === "nft";
+}
+
+/**
+ * Check whether a value is usable as the weight of a mix entry
+ */
+function isValidWeight(weight: unknown): weight is number {
+    return typeof weight === "number" && Number.isFinite(weight) && weight > 0;
+}
+
+/**
+ * Parse a content mix from command input
+ * "nft,artist" rotates through the types in order; "nft:70,artist:30" picks by weight.
+ * @param input The mix as typed by the user
+ * @returns The mix or an error message
+ */
+export function parseContentMix(input: string): { mix?: ContentMix; error?: string } {
+    const parts = input
+        .toLowerCase()
+        .split(",")
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0);
+
+    if (parts.length < 2) {
+        return { error: 'A mix needs at least two entries, e.g. "nft,artist" or "nft:70,artist:30".' };
+    }
+
+    const weighted = parts.some((part) => part.includes(":"));
+    const entries: ContentMix["entries"] = [];
+
+    for (const part of parts) {
+        const [type, weightText] = part.split(":");
+        if (!isMixType(type)) {
+            return { error: `Unknown content type "${type}". Use artist or nft.` };
+        }
+
+        if (!weighted) {
+            entries.push({ type });
+            continue;
+        }
+
+        const weight = Number(weightText);
+        if (!weightText || !isValidWeight(weight)) {
+            return { error: `Every entry of a weighted mix needs a positive weight, e.g. "${type}:50".` };
+        }
+        entries.push({ type, weight });
+    }
+
+    return { mix: { mode: weighted ? "weighted" : "rotate", entries, position: weighted ? undefined : 0 } };
+}
+
+/**
+ * Check a stored content mix against the rules parseContentMix applies to command input,
+ * e.g. for schedules edited by hand
+ * @param mix The mix as read from the store
+ * @returns A description of the problem, or undefined when the mix is valid
+ */
+export function validateContentMix(mix: unknown): string | undefined {
+    const value = mix as Partial<ContentMix> | null;
+    if (!value || typeof value !== "object") {
+        return "is not an object";
+    }
+    if (value.mode !== "rotate" && value.mode !== "weighted") {
+        return "has an invalid mode";
+    }
+    if (!Array.isArray(value.entries) || value.entries.length < 2) {
+        return "needs at least two entries";
+    }
+    for (const entry of value.entries) {
+        if (!isMixType(entry?.type)) {
+            return "has an entry with an unknown content type";
+        }
+        if (value.mode === "weighted" && !isValidWeight(entry.weight)) {
+            return "has an entry without a positive weight";
+        }
+    }
+    if (value.position !== undefined && (!Number.isInteger(value.position) || value.position < 0)) {
+        return "has an invalid position";
+    }
+    return undefined;
+}
+
+/**
+ * Check whether command input looks like a content mix rather than a single type
+ */
+export function isContentMixInput(input: string): boolean {
+    return input.includes(",");
+}
+
+/**
+ * Pick the type for the next run of a mix
+ * @param mix The content mix
+ * @returns The picked type and, for rotations, the position to persist for the following run
+ */
+export function nextMixType(mix: ContentMix): { type: FetchType; position?: number } {
+    if (mix.mode === "rotate") {
+        const position = (mix.position ?? 0) % mix.entries.length;
+        return { type: mix.entries[position].type, position: (position + 1) % mix.entries.length };
+    }
+
+    const total = mix.entries.reduce((sum, entry) => sum + (entry.weight ?? 1), 0);
+    let roll = Math.random() * total;
+    for (const entry of mix.entries) {
+        roll -= entry.weight ?? 1;
+        if (roll < 0) {
+            return { type: entry.type };
+        }
+    }
+    return { type: mix.entries[mix.entries.length - 1].type };
+}
+
+/**
+ * Describe what a schedule posts, e.g. "Random NFT" or "Mixed: NFT 70% / Artist 30%"
+ * @param schedule The schedule configuration
+ */
+export function describeContent(schedule: Pick<ScheduleConfig, "fetchType" | "mix">): string {
+    const mix = schedule.mix;
+
+    if (!mix || mix.entries.length === 0) {
+        return schedule.fetchType === "artist" ? "Random Artist" : "Random NFT";
+    }
+
+    if (mix.mode === "rotate") {
+        return `Rotating: ${mix.entries.map((entry) => TYPE_LABELS[entry.type]).join(" → ")}`;
+    }
+
+    const total = mix.entries.reduce((sum, entry) => sum + (entry.weight ?? 1), 0);
+    return `Mixed: ${mix.entries
+        .map((entry) => `${TYPE_LABELS[entry.type]} ${Math.round(((entry.weight ?? 1) / total) * 100)}%`)
+        .join(" / ")}`;
+}
@@ -0,0 +1,91 @@
+import * as cron from "node-cron";
+import { parseExpression } from "cron-parser";
+import { CATCH_UP_POLICY } from "../config";
+import { CatchUpPolicy } from "../types";
+
+/**
+ * Helpers for working with cron expressions and time zones
+ */
+
+/**
+ * Check whether a string is a valid IANA time zone name (e.g. "Europe/Berlin")
+ * @param timezone The time zone name to check
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Check whether a cron expression is valid for both the scheduler and the run-time calculations
+ * @param cronExpression The cron expression to check
+ */
+export function isValidCron(cronExpression: string): boolean {
+    if (!cron.validate(cronExpression)) return false;
+    try {
+        parseExpression(cronExpression);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Get the fire times of a cron expression in the half-open window (from, to]
+ * @param cronExpression The cron expression
+ * @param from Start of the window (exclusive), in milliseconds
+ * @param to End of the window (inclusive), in milliseconds
+ * @param timezone Optional IANA time zone; server local time when unset
+ * @param limit Stop after this many fire times
+ */
+export function getRunsBetween(
+    cronExpression: string,
+    from: number,
+    to: number,
+    timezone?: string,
+    limit = Number.POSITIVE_INFINITY
+): Date[] {
+    const runs: Date[] = [];
+    const interval = parseExpression(cronExpression, {
+        currentDate: new Date(from),
+        endDate: new Date(to),
+        tz: timezone,
+    });
+
+    while (runs.length < limit && interval.hasNext()) {
+        runs.push(interval.next().toDate());
+    }
+
+    return runs;
+}
+
+/**
+ * Get the next fire time of a cron expression
+ * @param cronExpression The cron expression
+ * @param timezone Optional IANA time zone; server local time when unset
+ * @param after Find the first fire time after this moment (defaults to now)
+ */
+export function getNextRun(cronExpression: string, timezone?: string, after = Date.now()): Date {
+    return parseExpression(cronExpression, { currentDate: new Date(after), tz: timezone })
+        .next()
+        .toDate();
+}
+
+/**
+ * Describe a catch-up policy for missed runs, falling back to the configured default
+ * @param policy The schedule's catch-up policy
+ */
+export function describeCatchUp(policy?: CatchUpPolicy): string {
+    switch (policy || CATCH_UP_POLICY) {
+        case "skip":
+            return "Skipped";
+        case "all":
+            return "All posted (capped)";
+        default:
+            return "Posted once";
+    }
+}
@@ -0,0 +1,166 @@
+import { ArtistData, ContentFilters, FetchType, NFTListing } from "../types";
+
+/**
+ * Helpers for schedule content filters (price range, media type, collection, creator)
+ */
+
+// Raw filter values as entered in the chat commands
+export interface FilterInput {
+    minPrice?: string | number | null;
+    maxPrice?: string | number | null;
+    media?: string | null; // Comma-separated mime types or prefixes, e.g. "image,video/mp4"
+    collections?: string | null; // Comma-separated fa_contract addresses to allow
+    excludeCollections?: string | null; // Comma-separated fa_contract addresses to deny
+    creators?: string | null; // Comma-separated creator addresses to allow
+    excludeCreators?: string | null; // Comma-separated creator addresses to deny
+}
+
+/**
+ * Split a comma-separated list, dropping empty entries
+ */
+function splitList(value?: string | null): string[] | undefined {
+    if (!value) return undefined;
+    const items = value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+    return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parse a price in tez, returning NaN for anything that isn't a non-negative number
+ */
+function parsePrice(value: string | number): number {
+    const price = typeof value === "number" ? value : Number(value);
+    return Number.isFinite(price) && price >= 0 ? price : NaN;
+}
+
+/**
+ * Validate and normalize filter input from a command
+ * @param input The raw filter values
+ * @returns The filters (undefined when none were given) or an error message
+ */
+export function parseFilters(input: FilterInput): { filters?: ContentFilters; error?: string } {
+    const filters: ContentFilters = {};
+
+    if (input.minPrice !== undefined && input.minPrice !== null && input.minPrice !== "") {
+        filters.minPrice = parsePrice(input.minPrice);
+        if (isNaN(filters.minPrice)) return { error: "Minimum price must be a number of tez (e.g. 5 or 0.5)." };
+    }
+    if (input.maxPrice !== undefined && input.maxPrice !== null && input.maxPrice !== "") {
+        filters.maxPrice = parsePrice(input.maxPrice);
+        if (isNaN(filters.maxPrice)) return { error: "Maximum price must be a number of tez (e.g. 50)." };
+    }
+    if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+        return { error: "Minimum price can't be higher than the maximum price." };
+    }
+
+    // "image" means any image type, "image/png" only PNGs
+    filters.mimePrefixes = splitList(input.media)?.map((type) =>
+        type.includes("/") ? type.toLowerCase() : `${type.toLowerCase()}/`
+    );
+    filters.allowContracts = splitList(input.collections);
+    filters.denyContracts = splitList(input.excludeCollections);
+    filters.allowCreators = splitList(input.creators);
+    filters.denyCreators = splitList(input.excludeCreators);
+
+    return { filters: hasFilters(filters) ? filters : undefined };
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function hasFilters(filters?: ContentFilters): filters is ContentFilters {
+    if (!filters) return false;
+    return Object.values(filters).some((value) => value !== undefined && (!Array.isArray(value) || value.length > 0));
+}
+
+/**
+ * Check whether a fetched artist or NFT passes a schedule's filters
+ * Artists are judged by their sample listing. An item missing a filtered value does not match.
+ * @param type The type of content
+ * @param data The fetched artist or NFT
+ * @param filters The filters to apply
+ */
+export function matchesFilters(type: FetchType, data: ArtistData | NFTListing, filters?: ContentFilters): boolean {
+    if (!hasFilters(filters)) return true;
+
+    let priceXtz: number | undefined;
+    let creators: string[];
+
+    if (type === "artist") {
+        const artist = data as ArtistData;
+        priceXtz = artist.sampleListing?.price_xtz;
+        creators = [artist.address];
+    } else {
+        const nft = data as NFTListing;
+        priceXtz = nft.priceXtz;
+        creators = nft.token?.creators?.map((creator) => creator.creator_address) || [];
+        if (creators.length === 0 && nft.seller?.address) creators = [nft.seller.address];
+    }
+
+    const mime = data.token?.mime?.toLowerCase();
+    const contract = data.token?.fa_contract;
+    const priceTez = priceXtz !== undefined ? priceXtz / 1000000 : undefined;
+
+    if (filters.minPrice !== undefined && (priceTez === undefined || priceTez < filters.minPrice)) return false;
+    if (filters.maxPrice !== undefined && (priceTez === undefined || priceTez > filters.maxPrice)) return false;
+    if (filters.mimePrefixes?.length && (!mime || !filters.mimePrefixes.some((prefix) => mime.startsWith(prefix)))) {
+        return false;
+    }
+    if (filters.allowContracts?.length && (!contract || !filters.allowContracts.includes(contract))) return false;
+    if (filters.denyContracts?.length && contract && filters.denyContracts.includes(contract)) return false;
+    if (filters.allowCreators?.length && !creators.some((creator) => filters.allowCreators!.includes(creator))) {
+        return false;
+    }
+    if (filters.denyCreators?.length && creators.some((creator) => filters.denyCreators!.includes(creator))) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Convert filters into query parameters for the REJKT endpoints
+ * Endpoints that don't support a parameter ignore it; filters are always enforced client-side too
+ * @param filters The filters to forward
+ */
+export function filtersToQueryParams(filters?: ContentFilters): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (!hasFilters(filters)) return params;
+
+    if (filters.minPrice !== undefined) params.min_price_xtz = String(Math.round(filters.minPrice * 1000000));
+    if (filters.maxPrice !== undefined) params.max_price_xtz = String(Math.round(filters.maxPrice * 1000000));
+    if (filters.mimePrefixes?.length) params.mime = filters.mimePrefixes.join(",");
+    if (filters.allowContracts?.length) params.fa_contract = filters.allowContracts.join(",");
+    if (filters.denyContracts?.length) params.exclude_fa_contract = filters.denyContracts.join(",");
+    if (filters.allowCreators?.length) params.creator = filters.allowCreators.join(",");
+    if (filters.denyCreators?.length) params.exclude_creator = filters.denyCreators.join(",");
+
+    return params;
+}
+
+/**
+ * Describe filters in a short human-readable form for list and confirmation messages
+ * @param filters The filters to describe
+ */
+export function describeFilters(filters?: ContentFilters): string {
+    if (!hasFilters(filters)) return "None";
+
+    const parts: string[] = [];
+
+    if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+        parts.push(`Price ${filters.minPrice}-${filters.maxPrice} ꜩ`);
+    } else if (filters.minPrice !== undefined) {
+        parts.push(`Price ≥ ${filters.minPrice} ꜩ`);
+    } else if (filters.maxPrice !== undefined) {
+        parts.push(`Price ≤ ${filters.maxPrice} ꜩ`);
+    }
+    if (filters.mimePrefixes?.length) parts.push(`Media: ${filters.mimePrefixes.join(", ")}`);
+    if (filters.allowContracts?.length) parts.push(`Collections: ${filters.allowContracts.join(", ")}`);
+    if (filters.denyContracts?.length) parts.push(`Excluded collections: ${filters.denyContracts.join(", ")}`);
+    if (filters.allowCreators?.length) parts.push(`Creators: ${filters.allowCreators.join(", ")}`);
+    if (filters.denyCreators?.length) parts.push(`Excluded creators: ${filters.denyCreators.join(", ")}`);
+
+    return parts.join("; ");
+}
@@ -0,0 +1,172 @@
+import { PlatformId } from "../types";
+
+/**
+ * Leveled logger writing either human-readable lines or one JSON object per line
+ * Child loggers add context such as the schedule or chat a message is about
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// How output is written, set once at startup with configureLogger
+export interface LoggerSettings {
+    level: LogLevel; // Lowest level written
+    format: "pretty" | "json";
+    secrets: string[]; // Replaced wherever they appear in output, e.g. a bot token inside a request URL
+}
+
+// Context attached to every message of a logger and its children
+export interface LogContext {
+    scheduleId?: string;
+    platform?: PlatformId;
+    chatId?: string; // Telegram chat
+    channelId?: string; // Discord channel
+    guildId?: string;
+    [key: string]: unknown;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Replaces secrets wherever they appear in a log line, e.g. a bot token inside a request URL in an error message
+const REDACTED = "[REDACTED]";
+
+// Used until configureLogger is called. The settings are passed in rather than read from the config module,
+// which logs through this one, so neither depends on the other having loaded first
+let settings: LoggerSettings = { level: "info", format: "pretty", secrets: [] };
+
+/**
+ * Apply the log level, format and secrets from the configuration; call this first thing at startup
+ */
+export function configureLogger(options: LoggerSettings) {
+    settings = { ...options, secrets: options.secrets.filter((secret) => secret && secret.length >= 8) };
+}
+
+/**
+ * Turn errors into plain objects so their message and stack survive JSON serialization
+ */
+function serialize(value: unknown): unknown {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    return value;
+}
+
+/**
+ * JSON.stringify replacer writing BigInts as strings, since JSON.stringify throws on them
+ */
+function jsonReplacer(_key: string, value: unknown): unknown {
+    return typeof value === "bigint" ? value.toString() : value;
+}
+
+// Written in place of a value that can't be serialized, such as a circular structure, so logging never throws
+const UNSERIALIZABLE = "[unserializable]";
+
+/**
+ * Replace every configured secret in a line of output
+ */
+function redact(line: string): string {
+    return settings.secrets.reduce((result, secret) => result.split(secret).join(REDACTED), line);
+}
+
+/**
+ * Format a field value for the pretty output
+ */
+function formatValue(value: unknown): string {
+    if (value instanceof Error) {
+        return JSON.stringify(value.message);
+    }
+    if (typeof value === "string") {
+        return /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+    }
+    try {
+        return JSON.stringify(value, jsonReplacer);
+    } catch {
+        return UNSERIALIZABLE;
+    }
+}
+
+export class Logger {
+    constructor(private readonly context: LogContext = {}) {}
+
+    /**
+     * Create a logger that adds context to every message
+     * @param context Fields to attach, e.g. { scheduleId } or { platform: "telegram", chatId }
+     */
+    child(context: LogContext): Logger {
+        return new Logger({ ...this.context, ...context });
+    }
+
+    debug(message: string, fields?: Record<string, unknown>) {
+        this.write("debug", message, fields);
+    }
+
+    info(message: string, fields?: Record<string, unknown>) {
+        this.write("info", message, fields);
+    }
+
+    warn(message: string, fields?: Record<string, unknown>) {
+        this.write("warn", message, fields);
+    }
+
+    /**
+     * Log an error; pass the caught error as the error field to include its message and stack
+     */
+    error(message: string, fields?: Record<string, unknown>) {
+        this.write("error", message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields: Record<string, unknown> = {}) {
+        if (LEVELS[level] < LEVELS[settings.level]) {
+            return;
+        }
+
+        const time = new Date().toISOString();
+        const data: Record<string, unknown> = { ...this.context, ...fields };
+        const line =
+            settings.format === "json"
+                ? this.formatJson(time, level, message, data)
+                : this.formatPretty(time, level, message, data);
+
+        const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+        stream.write(redact(line) + "\n");
+    }
+
+    private formatJson(time: string, level: LogLevel, message: string, data: Record<string, unknown>): string {
+        const entry: Record<string, unknown> = { time, level, msg: message };
+        for (const [key, value] of Object.entries(data)) {
+            if (value !== undefined) {
+                entry[key] = serialize(value);
+            }
+        }
+        try {
+            return JSON.stringify(entry, jsonReplacer);
+        } catch {
+            // Replace only the fields that can't be serialized and keep the rest of the entry
+            for (const [key, value] of Object.entries(entry)) {
+                try {
+                    JSON.stringify(value, jsonReplacer);
+                } catch {
+                    entry[key] = UNSERIALIZABLE;
+                }
+            }
+            return JSON.stringify(entry, jsonReplacer);
+        }
+    }
+
+    private formatPretty(time: string, level: LogLevel, message: string, data: Record<string, unknown>): string {
+        const fields = Object.entries(data)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => `${key}=${formatValue(value)}`);
+        let line = `${time} ${level.toUpperCase().padEnd(5)} ${message}${fields.length ? ` ${fields.join(" ")}` : ""}`;
+
+        // Stacks go on their own lines so they stay readable
+        for (const value of Object.values(data)) {
+            if (value instanceof Error && value.stack) {
+                line += `\n${value.stack}`;
+            }
+        }
+        return line;
+    }
+}
+
+// Root logger; use child() to add context
+export const logger = new Logger();
@@ -0,0 +1,228 @@
+/**
+ * Metrics registry rendered in the Prometheus text exposition format
+ * Metrics are registered once at module load and updated from wherever the activity happens
+ */
+
+type Labels = Record<string, string>;
+
+// Latency buckets for API calls, in seconds; fetches include retries, so they reach well past the request timeout
+const API_DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+interface Metric {
+    render(): string[];
+}
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+/**
+ * Format a label set, e.g. {type="nft",outcome="success"}
+ */
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+        return "";
+    }
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+/**
+ * Build a stable key for a label set, using the metric's label order
+ */
+function labelKey(labelNames: string[], labels: Labels): string {
+    return JSON.stringify(labelNames.map((name) => labels[name] ?? ""));
+}
+
+/**
+ * Pick the declared labels in declaration order, so every series of a metric has the same label names
+ */
+function orderLabels(labelNames: string[], labels: Labels): Labels {
+    return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? ""]));
+}
+
+/**
+ * A value that only goes up, e.g. the number of API calls made
+ */
+export class Counter implements Metric {
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        private readonly labelNames: string[] = []
+    ) {}
+
+    /**
+     * Increase the counter for a label set
+     * @param labels Values for the counter's labels
+     * @param amount How much to add (defaults to 1)
+     */
+    inc(labels: Labels = {}, amount = 1) {
+        const key = labelKey(this.labelNames, labels);
+        const entry = this.values.get(key);
+        if (entry) {
+            entry.value += amount;
+        } else {
+            this.values.set(key, { labels: orderLabels(this.labelNames, labels), value: amount });
+        }
+    }
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} counter`,
+            ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+        ];
+    }
+}
+
+/**
+ * A value read at scrape time, e.g. the number of active scheduled tasks
+ */
+export class Gauge implements Metric {
+    private collect: () => number = () => 0;
+
+    constructor(
+        readonly name: string,
+        readonly help: string
+    ) {}
+
+    /**
+     * Set the function that reads the current value when metrics are scraped
+     */
+    setCollector(collect: () => number) {
+        this.collect = collect;
+    }
+
+    render(): string[] {
+        return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+    }
+}
+
+/**
+ * Observations sorted into buckets, e.g. how long API calls take
+ */
+export class Histogram implements Metric {
+    private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        private readonly labelNames: string[],
+        private readonly buckets: number[]
+    ) {}
+
+    /**
+     * Record an observation for a label set
+     * @param labels Values for the histogram's labels
+     * @param value The observed value
+     */
+    observe(labels: Labels, value: number) {
+        const key = labelKey(this.labelNames, labels);
+        let entry = this.values.get(key);
+        if (!entry) {
+            entry = {
+                labels: orderLabels(this.labelNames, labels),
+                counts: this.buckets.map(() => 0),
+                sum: 0,
+                count: 0,
+            };
+            this.values.set(key, entry);
+        }
+
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                entry!.counts[index]++;
+            }
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+        for (const { labels, counts, sum, count } of this.values.values()) {
+            this.buckets.forEach((bound, index) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+
+        return lines;
+    }
+}
+
+/**
+ * Collection of metrics that can be rendered together
+ */
+export class MetricsRegistry {
+    private metrics: Metric[] = [];
+
+    counter(name: string, help: string, labelNames: string[] = []): Counter {
+        return this.register(new Counter(name, help, labelNames));
+    }
+
+    gauge(name: string, help: string): Gauge {
+        return this.register(new Gauge(name, help));
+    }
+
+    histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+        return this.register(new Histogram(name, help, labelNames, buckets));
+    }
+
+    /**
+     * Render every metric in the Prometheus text exposition format
+     */
+    render(): string {
+        return this.metrics.map((metric) => metric.render().join("\n")).join("\n\n") + "\n";
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+}
+
+// Registry served on /metrics
+export const metrics = new MetricsRegistry();
+
+// API calls made by ApiService.fetchData, by content type and outcome (success, failure or circuit_open)
+export const apiRequests = metrics.counter("rejktbot_api_requests_total", "REJKT API fetches by type and outcome", [
+    "type",
+    "outcome",
+]);
+export const apiRequestDuration = metrics.histogram(
+    "rejktbot_api_request_duration_seconds",
+    "Time taken by REJKT API fetches, including retries",
+    ["type", "outcome"],
+    API_DURATION_BUCKETS
+);
+
+// Scheduled runs, by schedule and result (success or failure)
+export const scheduleRuns = metrics.counter("rejktbot_schedule_runs_total", "Schedule runs by schedule and result", [
+    "schedule_id",
+    "result",
+]);
+
+// Posts sent to channels and chats by schedules, by platform and result
+export const postsSent = metrics.counter("rejktbot_posts_sent_total", "Scheduled posts sent by platform and result", [
+    "platform",
+    "result",
+]);
+
+// Cron tasks currently registered with the scheduler
+export const activeScheduledTasks = metrics.gauge("rejktbot_scheduled_tasks", "Active scheduled tasks");
+
+// Chat commands invoked, by platform and command name
+export const commandInvocations = metrics.counter(
+    "rejktbot_command_invocations_total",
+    "Chat commands invoked by platform and command",
+    ["platform", "command"]
+);
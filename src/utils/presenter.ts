@@ -0,0 +1,158 @@
+import { ArtistData, NFTListing, PostField, RichPost } from "../types";
+
+/**
+ * Shared, platform-neutral layout for artist and NFT showcases.
+ * Every surface (on-demand commands and scheduled posts) builds its post here
+ * and then hands it to one of the platform renderers below.
+ */
+
+// Description limits per platform (Telegram photo captions are capped at 1024 characters)
+const DISCORD_DESCRIPTION_LIMIT = 2000;
+const TELEGRAM_DESCRIPTION_LIMIT = 800;
+const BIO_LIMIT = 500;
+
+/**
+ * Truncate text to a maximum length, adding an ellipsis when cut
+ */
+function truncate(text: string, max: number): string {
+    return text.length > max ? text.substring(0, max) + "..." : text;
+}
+
+/**
+ * Build the wallet and social link fields shared by artists and NFT sellers
+ */
+function profileFields(profile: {
+    address?: string;
+    website?: string | null;
+    twitter?: string | null;
+    tzdomain?: string | null;
+    telegram?: string | null;
+}): PostField[] {
+    const fields: PostField[] = [];
+
+    if (profile.address) fields.push({ name: "Wallet", value: profile.address, inline: true });
+    if (profile.website) fields.push({ name: "Website", value: profile.website, inline: true });
+    if (profile.twitter) fields.push({ name: "Twitter", value: profile.twitter, inline: true });
+    if (profile.tzdomain) fields.push({ name: "TZ Domain", value: profile.tzdomain, inline: true });
+    if (profile.telegram) fields.push({ name: "Telegram", value: profile.telegram, inline: true });
+
+    return fields;
+}
+
+/**
+ * Build the showcase post for an artist
+ */
+export function presentArtist(data: ArtistData): RichPost {
+    const fields = profileFields(data);
+
+    if (data.bio) {
+        fields.push({ name: "Recent Work", value: truncate(data.bio, BIO_LIMIT), inline: false });
+    }
+
+    return {
+        title: `🎨 ${data.name}`,
+        fields,
+        imageUrl: data.imageUrl,
+        thumbnailUrl: "https://rejkt.xyz/logo.png",
+        color: 0x6441a4, // Purple color for artist posts
+        link: data.profileLink ? { label: "View on REJKT", url: data.profileLink } : undefined,
+        footer: "REJKT Bot • Artist Showcase",
+    };
+}
+
+/**
+ * Build the showcase post for an NFT listing
+ */
+export function presentNFT(data: NFTListing): RichPost {
+    const fields: PostField[] = [];
+
+    if (data.price) fields.push({ name: "Price", value: data.price, inline: true });
+    if (data.seller) {
+        if (data.seller.alias) fields.push({ name: "Creator", value: data.seller.alias, inline: true });
+        fields.push(...profileFields(data.seller));
+    }
+
+    return {
+        title: `🖼️ ${data.name}`,
+        description: data.description || undefined,
+        fields,
+        imageUrl: data.imageUrl,
+        thumbnailUrl: "https://objkt.com/favicon.ico",
+        color: 0xff5733, // Orange color for NFT posts
+        link: data.referralLink ? { label: "View on Objkt", url: data.referralLink } : undefined,
+        footer: "REJKT Bot • NFT Showcase",
+    };
+}
+
+/**
+ * Render a post as a Discord message payload (embed + link button)
+ */
+export function renderDiscordMessage(post: RichPost) {
+    const embed = {
+        color: post.color,
+        title: post.title,
+        description: post.description ? truncate(post.description, DISCORD_DESCRIPTION_LIMIT) : undefined,
+        thumbnail: post.thumbnailUrl ? { url: post.thumbnailUrl } : undefined,
+        image: post.imageUrl ? { url: post.imageUrl } : undefined,
+        fields: post.fields.map((field) => ({ name: field.name, value: field.value, inline: !!field.inline })),
+        footer: post.footer ? { text: post.footer } : undefined,
+        timestamp: new Date().toISOString(),
+    };
+
+    // Create action button using component
+    const components = post.link
+        ? [
+              {
+                  type: 1, // Action Row
+                  components: [
+                      {
+                          type: 2, // Button
+                          style: 5, // Link button
+                          label: post.link.label,
+                          url: post.link.url,
+                      },
+                  ],
+              },
+          ]
+        : [];
+
+    return { embeds: [embed], components };
+}
+
+/**
+ * Render a post as an HTML caption plus inline keyboard for Telegram
+ */
+export function renderTelegramMessage(post: RichPost) {
+    let caption = `<b>${escapeHTML(post.title)}</b>\n\n`;
+
+    if (post.description) {
+        caption += `${escapeHTML(truncate(post.description, TELEGRAM_DESCRIPTION_LIMIT))}\n\n`;
+    }
+
+    if (post.fields.length > 0) {
+        for (const field of post.fields) {
+            caption += field.inline
+                ? `<b>${escapeHTML(field.name)}:</b> ${escapeHTML(field.value)}\n`
+                : `<b>${escapeHTML(field.name)}:</b>\n${escapeHTML(field.value)}\n`;
+        }
+        caption += "\n";
+    }
+
+    if (post.footer) {
+        caption += `<i>${escapeHTML(post.footer)} • ${new Date().toLocaleDateString()}</i>`;
+    }
+
+    return {
+        caption: caption.trim(),
+        parse_mode: "HTML" as const,
+        reply_markup: post.link ? { inline_keyboard: [[{ text: post.link.label, url: post.link.url }]] } : undefined,
+    };
+}
+
+/**
+ * Escape HTML special characters to prevent injection
+ */
+export function escapeHTML(text: string): string {
+    if (!text) return "";
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -1,16 +1,51 @@
-import fs from "fs";
-import path from "path";
-import { ScheduleConfig, ScheduleStore, FetchType } from "../types";
-
-// Path to the schedule configuration file
-const SCHEDULES_FILE_PATH = path.join(process.cwd(), "schedules.json");
+import { randomInt } from "crypto";
+import {
+    ScheduleConfig,
+    ScheduleStore,
+    FetchType,
+    CatchUpConfig,
+    ContentFilters,
+    ContentMix,
+    ScheduleRun,
+    PostTarget,
+    RecentPost,
+    PermissionPolicy,
+    ScheduleChanges,
+    StoreChange,
+    PlatformId,
+    ScheduleTarget,
+} from "../types";
+import { DEDUPE_WINDOW_HOURS } from "../config";
+import { createStorage, ScheduleStorage } from "../storage";
+import { CURRENT_STORE_VERSION, migrateStore } from "../storage/migrations";
+import { isValidCron, isValidTimezone } from "./cron";
+import { validateContentMix } from "./content-mix";
+import { getTarget, getTargetScope } from "./targets";
+import { logger } from "./logger";
+
+// Number of runs kept in the execution history for each schedule
+const RUN_HISTORY_LIMIT = 50;
+
+// How long a cross-platform link code stays valid
+const LINK_CODE_TTL_MS = 10 * 60 * 1000;
+
+// Characters used in link codes (no 0/O or 1/I to avoid typos)
+const LINK_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const LINK_CODE_LENGTH = 6;
 
 /**
  * Utility for managing schedule configurations
  */
 export class ScheduleManager {
     private static instance: ScheduleManager;
+    private storage?: ScheduleStorage;
     private schedules: ScheduleConfig[] = [];
+    private runs: ScheduleRun[] = [];
+    private recentPosts: RecentPost[] = [];
+    private policies: PermissionPolicy[] = [];
+    private loaded = false;
+    private stopWatching?: () => void;
+    private linkCodes: Map<string, { scheduleId: string; expiresAt: number }> = new Map();
 
     /**
      * Get the singleton instance
@@ -23,102 +58,200 @@ export class ScheduleManager {
     }
 
     /**
-     * Load schedules from the configuration file
+     * Get the storage backend, creating the configured one on first use
+     */
+    private getStorage(): ScheduleStorage {
+        if (!this.storage) {
+            this.storage = createStorage();
+        }
+        return this.storage;
+    }
+
+    /**
+     * Load schedules from the storage backend, upgrading older store formats first
+     * Throws when the store can't be read (unparseable, or written by a newer version) instead of starting empty,
+     * so a later save can't overwrite schedules that are still on disk
      */
     async loadSchedules(): Promise<ScheduleConfig[]> {
-        try {
-            // Check if the file exists
-            if (!fs.existsSync(SCHEDULES_FILE_PATH)) {
-                // Create empty schedule store if file doesn't exist
-                await this.saveSchedules([]);
-            }
+        const storage = this.getStorage();
+        logger.info(`Loading schedules from ${storage.description}`);
 
-            // Read and parse the schedule file
-            const data = fs.readFileSync(SCHEDULES_FILE_PATH, "utf8");
-            const store: ScheduleStore = JSON.parse(data);
-            this.schedules = store.schedules || [];
+        const raw = await storage.load();
 
-            return this.schedules;
-        } catch (error) {
-            console.error("Error loading schedules:", error);
-            // Return empty schedules if there's an error
+        if (raw === undefined) {
+            // Create an empty schedule store if nothing has been saved yet
             this.schedules = [];
+            this.loaded = true;
+            await this.saveSchedules();
             return this.schedules;
         }
+
+        const { store, fromVersion, applied } = migrateStore(raw);
+
+        this.schedules = store.schedules;
+        this.runs = store.runs || [];
+        this.recentPosts = store.recentPosts || [];
+        this.policies = store.policies || [];
+        this.loaded = true;
+
+        if (applied.length > 0) {
+            // Keep a copy of the old format before it is rewritten
+            const backupPath = await storage.backup(`v${fromVersion}`);
+            logger.info(`Migrating schedule store from version ${fromVersion} to ${CURRENT_STORE_VERSION}`, {
+                backup: backupPath,
+            });
+            for (const step of applied) {
+                logger.info(`Applied migration ${step}`);
+            }
+            await this.saveSchedules();
+        }
+
+        return this.schedules;
     }
 
     /**
-     * Save schedules to the configuration file
+     * Save schedules to the storage backend
+     * @param change What changed, so the backend can write just that; without it the whole store is rewritten
      */
-    async saveSchedules(schedules?: ScheduleConfig[]): Promise<void> {
-        try {
-            if (schedules) {
-                this.schedules = schedules;
-            }
+    async saveSchedules(change?: StoreChange): Promise<void> {
+        // Never write before a successful load, or the stored schedules would be replaced with an empty list
+        if (!this.loaded) {
+            logger.error("Refusing to save schedules before they have been loaded");
+            return;
+        }
 
+        try {
             const store: ScheduleStore = {
                 schedules: this.schedules,
-                version: 1, // For future migrations if needed
+                runs: this.runs,
+                recentPosts: this.recentPosts,
+                policies: this.policies,
+                version: CURRENT_STORE_VERSION,
             };
 
-            fs.writeFileSync(SCHEDULES_FILE_PATH, JSON.stringify(store, null, 2));
-            console.log("Schedules saved successfully");
+            await this.getStorage().save(store, change);
+            logger.debug("Schedules saved");
         } catch (error) {
-            console.error("Error saving schedules:", error);
+            logger.error("Error saving schedules", { error });
         }
     }
 
     /**
-     * Get a schedule by ID
+     * Watch the store for changes made outside the bot (hand edits, restored backups) and apply them
+     * Invalid contents are rejected and the schedules in memory are kept
+     * @param onChange Called with the schedules that were added, removed or updated
      */
-    getSchedule(id: string): ScheduleConfig | undefined {
-        return this.schedules.find((schedule) => schedule.id === id);
+    watchStore(onChange: (changes: ScheduleChanges) => void) {
+        if (this.stopWatching) {
+            return;
+        }
+
+        const storage = this.getStorage();
+        this.stopWatching = storage.watch(
+            (raw) => {
+                const changes = this.applyExternalStore(raw);
+                if (changes) {
+                    onChange(changes);
+                }
+            },
+            (error) => {
+                logger.error(`Ignoring external change to ${storage.description}`, {
+                    error: error instanceof Error ? error.message : error,
+                });
+            }
+        );
+        logger.info(`Watching ${storage.description} for external changes`);
     }
 
     /**
-     * Get schedules for a specific Discord channel
-     * @param channelId The Discord channel ID
-     * @param guildId Optional Discord guild ID
+     * Validate externally changed store contents and replace the in-memory state with them
+     * @param raw The new store contents as read from the backend
+     * @returns What changed, or undefined when the contents were rejected
      */
-    getDiscordChannelSchedules(channelId: string, guildId?: string): ScheduleConfig[] {
-        // Log for debugging channel association
-        console.log(`Looking for schedules with channelId: ${channelId}, guildId: ${guildId || "any"}`);
-
-        // Convert IDs to strings to ensure consistent comparison
-        const channelIdStr = String(channelId);
-        const guildIdStr = guildId ? String(guildId) : undefined;
-
-        const matchingSchedules = this.schedules.filter((schedule) => {
-            // Convert schedule channel IDs to strings for comparison
-            const scheduleChannelId = schedule.discord?.channelId ? String(schedule.discord.channelId) : "";
-            const scheduleGuildId = schedule.discord?.guildId ? String(schedule.discord.guildId) : undefined;
-
-            const matches =
-                scheduleChannelId === channelIdStr &&
-                (!guildIdStr || scheduleGuildId === guildIdStr || !scheduleGuildId);
-
-            // Log each schedule we examine for debugging
-            if (schedule.discord) {
-                console.log(
-                    `Schedule ${schedule.id} - channel: ${scheduleChannelId}, guild: ${
-                        scheduleGuildId || "none"
-                    }, matches: ${matches}`
-                );
-            }
+    private applyExternalStore(raw: unknown): ScheduleChanges | undefined {
+        let store: ScheduleStore;
+        try {
+            store = migrateStore(raw).store;
+        } catch (error) {
+            logger.error("Rejected external change to the schedule store", {
+                error: error instanceof Error ? error.message : error,
+            });
+            return undefined;
+        }
+
+        const problems = validateSchedules(store.schedules);
+        if (problems.length > 0) {
+            logger.error("Rejected external change to the schedule store", { problems });
+            return undefined;
+        }
+
+        const current = new Map(this.schedules.map((schedule) => [schedule.id, schedule]));
+        const changes: ScheduleChanges = { added: [], removed: [], updated: [] };
+
+        // Keep the existing objects for unchanged schedules; running tasks hold references to them
+        const schedules = store.schedules.map((schedule) => {
+            const existing = current.get(schedule.id);
+            current.delete(schedule.id);
 
-            return matches;
+            if (!existing) {
+                changes.added.push(schedule);
+                return schedule;
+            }
+            if (JSON.stringify(existing) !== JSON.stringify(schedule)) {
+                changes.updated.push(schedule);
+                return schedule;
+            }
+            return existing;
         });
+        changes.removed = [...current.values()];
+
+        this.schedules = schedules;
+        this.runs = store.runs || [];
+        this.recentPosts = store.recentPosts || [];
+        this.policies = store.policies || [];
 
-        console.log(`Found ${matchingSchedules.length} matching schedules for channel ${channelId}`);
-        return matchingSchedules;
+        for (const schedule of changes.added)
+            logger.info(`External change: added schedule "${schedule.name}"`, { scheduleId: schedule.id });
+        for (const schedule of changes.updated)
+            logger.info(`External change: updated schedule "${schedule.name}"`, { scheduleId: schedule.id });
+        for (const schedule of changes.removed)
+            logger.info(`External change: removed schedule "${schedule.name}"`, { scheduleId: schedule.id });
+
+        return changes;
     }
 
     /**
-     * Get schedules for a specific Telegram chat
-     * @param chatId The Telegram chat ID
+     * Close the storage backend, e.g. on shutdown
      */
-    getTelegramChatSchedules(chatId: string): ScheduleConfig[] {
-        return this.schedules.filter((schedule) => schedule.telegram?.chatId === chatId);
+    async close(): Promise<void> {
+        this.stopWatching?.();
+        this.stopWatching = undefined;
+        await this.storage?.close();
+        this.storage = undefined;
+    }
+
+    /**
+     * Get a schedule by ID
+     */
+    getSchedule(id: string): ScheduleConfig | undefined {
+        return this.schedules.find((schedule) => schedule.id === id);
+    }
+
+    /**
+     * Get the schedules that post to a channel or chat
+     * @param platform The platform of the channel or chat
+     * @param target The channel or chat ID
+     * @param scope Optional guild ID; schedules saved with a different guild are left out
+     */
+    getTargetSchedules(platform: PlatformId, target: string, scope?: string): ScheduleConfig[] {
+        return this.schedules.filter((schedule) =>
+            schedule.targets.some(
+                (entry) =>
+                    entry.platform === platform &&
+                    entry.target === target &&
+                    (!scope || !entry.scope || entry.scope === scope)
+            )
+        );
     }
 
     /**
@@ -137,7 +270,7 @@ export class ScheduleManager {
         }
 
         this.schedules.push(schedule);
-        await this.saveSchedules();
+        await this.saveSchedules({ kind: "schedule", id: schedule.id });
         return schedule;
     }
 
@@ -155,11 +288,134 @@ export class ScheduleManager {
         updatedSchedule.createdAt = this.schedules[index].createdAt;
         updatedSchedule.createdBy = this.schedules[index].createdBy;
 
+        // Count missed runs of a resumed schedule from now, so the time it was paused isn't caught up
+        if (updatedSchedule.enabled && !this.schedules[index].enabled) {
+            updatedSchedule.lastRunAt = Date.now();
+        }
+
         this.schedules[index] = updatedSchedule;
-        await this.saveSchedules();
+        await this.saveSchedules({ kind: "schedule", id: updatedSchedule.id });
         return updatedSchedule;
     }
 
+    /**
+     * Resume a paused schedule
+     * Missed runs are counted from now, so the time it was paused isn't caught up
+     * @param id The ID of the schedule
+     * @returns The resumed schedule, or null when there is no schedule with that ID
+     */
+    async resumeSchedule(id: string): Promise<ScheduleConfig | null> {
+        const schedule = this.getSchedule(id);
+
+        if (!schedule) {
+            return null;
+        }
+
+        schedule.enabled = true;
+        schedule.lastRunAt = Date.now();
+        await this.saveSchedules({ kind: "schedule", id });
+        return schedule;
+    }
+
+    /**
+     * Record the time a schedule last ran
+     * @param id The ID of the schedule
+     * @param timestamp When the run happened (defaults to now)
+     */
+    async recordRun(id: string, timestamp = Date.now()): Promise<void> {
+        const schedule = this.getSchedule(id);
+
+        if (!schedule) {
+            return;
+        }
+
+        schedule.lastRunAt = timestamp;
+        await this.saveSchedules({ kind: "schedule", id });
+    }
+
+    /**
+     * Store the next position of a schedule's content rotation
+     * @param id The ID of the schedule
+     * @param position The index of the entry the next run should use
+     */
+    async setMixPosition(id: string, position: number): Promise<void> {
+        const schedule = this.getSchedule(id);
+
+        if (!schedule?.mix) {
+            return;
+        }
+
+        schedule.mix.position = position;
+        await this.saveSchedules({ kind: "schedule", id });
+    }
+
+    /**
+     * Add a run to a schedule's execution history, keeping only the most recent runs
+     * @param run The completed run
+     */
+    async recordExecution(run: ScheduleRun): Promise<void> {
+        this.runs.push(run);
+
+        const scheduleRuns = this.runs.filter((r) => r.scheduleId === run.scheduleId);
+        if (scheduleRuns.length > RUN_HISTORY_LIMIT) {
+            const stale = new Set(scheduleRuns.slice(0, scheduleRuns.length - RUN_HISTORY_LIMIT));
+            this.runs = this.runs.filter((r) => !stale.has(r));
+        }
+
+        await this.saveSchedules({ kind: "run", run });
+    }
+
+    /**
+     * Get the most recent runs of a schedule, newest first
+     * @param scheduleId The ID of the schedule
+     * @param limit Maximum number of runs to return
+     */
+    getRunHistory(scheduleId: string, limit = RUN_HISTORY_LIMIT): ScheduleRun[] {
+        return this.runs
+            .filter((run) => run.scheduleId === scheduleId)
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, limit);
+    }
+
+    /**
+     * Count the consecutive failed runs of a schedule, starting from the latest
+     * @param scheduleId The ID of the schedule
+     */
+    getFailureStreak(scheduleId: string): number {
+        const history = this.getRunHistory(scheduleId);
+        const firstSuccess = history.findIndex((run) => run.success);
+        return firstSuccess === -1 ? history.length : firstSuccess;
+    }
+
+    /**
+     * Check whether an item was posted to a target within the duplicate window
+     * @param target The channel or chat
+     * @param itemKey The item key (artist address or fa_contract:token_id)
+     */
+    wasRecentlyPosted(target: PostTarget, itemKey: string): boolean {
+        const cutoff = Date.now() - DEDUPE_WINDOW_HOURS * 60 * 60 * 1000;
+        return this.recentPosts.some(
+            (post) =>
+                post.platform === target.platform &&
+                post.target === target.target &&
+                post.itemKey === itemKey &&
+                post.postedAt >= cutoff
+        );
+    }
+
+    /**
+     * Remember that an item was posted to a target, dropping entries older than the duplicate window
+     * @param target The channel or chat
+     * @param itemKey The item key (artist address or fa_contract:token_id)
+     */
+    async recordPost(target: PostTarget, itemKey: string): Promise<void> {
+        const cutoff = Date.now() - DEDUPE_WINDOW_HOURS * 60 * 60 * 1000;
+        this.recentPosts = this.recentPosts.filter((post) => post.postedAt >= cutoff);
+        const post: RecentPost = { platform: target.platform, target: target.target, itemKey, postedAt: Date.now() };
+        this.recentPosts.push(post);
+        await this.saveSchedules({ kind: "post", post });
+    }
+
     /**
      * Delete a schedule by ID
      */
@@ -168,7 +424,9 @@ export class ScheduleManager {
         this.schedules = this.schedules.filter((s) => s.id !== id);
 
         if (this.schedules.length !== initialLength) {
-            await this.saveSchedules();
+            // Drop the deleted schedule's execution history as well
+            this.runs = this.runs.filter((run) => run.scheduleId !== id);
+            await this.saveSchedules({ kind: "schedule", id });
             return true;
         }
 
@@ -176,26 +434,114 @@ export class ScheduleManager {
     }
 
     /**
-     * Check if a user can manage a schedule
-     * @param scheduleId The ID of the schedule
+     * Issue a one-time code for linking a Telegram chat to a schedule
+     * Codes are kept in memory only; issuing a new code for the same schedule replaces the old one
+     * @param scheduleId The ID of the schedule to link
+     * @returns The code and when it expires
+     */
+    createLinkCode(scheduleId: string): { code: string; expiresAt: number } {
+        const now = Date.now();
+        for (const [code, entry] of this.linkCodes) {
+            if (entry.scheduleId === scheduleId || entry.expiresAt <= now) {
+                this.linkCodes.delete(code);
+            }
+        }
+
+        let code: string;
+        do {
+            code = Array.from(
+                { length: LINK_CODE_LENGTH },
+                () => LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)]
+            ).join("");
+        } while (this.linkCodes.has(code));
+
+        const expiresAt = now + LINK_CODE_TTL_MS;
+        this.linkCodes.set(code, { scheduleId, expiresAt });
+        return { code, expiresAt };
+    }
+
+    /**
+     * Redeem a link code, returning the ID of the schedule it was issued for
+     * Each code works once; unknown or expired codes return undefined
+     * @param code The code as typed by the user (case-insensitive)
+     */
+    redeemLinkCode(code: string): string | undefined {
+        const normalized = code.trim().toUpperCase();
+        const entry = this.linkCodes.get(normalized);
+
+        if (!entry) {
+            return undefined;
+        }
+
+        this.linkCodes.delete(normalized);
+        return entry.expiresAt > Date.now() ? entry.scheduleId : undefined;
+    }
+
+    /**
+     * Get the permission policy of a Discord guild or Telegram chat
+     * Places without a stored policy get the default: anyone can create, creators and admins manage
      * @param platform The platform (discord or telegram)
+     * @param scope The guild ID (Discord) or chat ID (Telegram)
+     */
+    getPolicy(platform: PlatformId, scope?: string): PermissionPolicy {
+        const policy = scope ? this.policies.find((p) => p.platform === platform && p.scope === scope) : undefined;
+
+        return policy
+            ? { ...policy, creators: [...policy.creators], managers: [...policy.managers] }
+            : { platform, scope: scope || "", membersCanCreate: true, creators: [], managers: [] };
+    }
+
+    /**
+     * Store the permission policy of a Discord guild or Telegram chat
+     * @param policy The policy to store, replacing any existing one for the same place
+     */
+    async setPolicy(policy: PermissionPolicy): Promise<void> {
+        this.policies = this.policies.filter((p) => !(p.platform === policy.platform && p.scope === policy.scope));
+        this.policies.push(policy);
+        await this.saveSchedules({ kind: "policy", policy });
+    }
+
+    /**
+     * Check if the permission policy of a guild or chat lets a user create schedules there
+     * Admins of the guild or chat may create schedules regardless; that is up to the platform to check
+     * @param platform The platform (discord or telegram)
+     * @param scope The guild ID (Discord) or chat ID (Telegram)
      * @param userId The user ID
-     * @param isAdmin Whether the user has admin privileges
+     * @param roleIds The user's Discord role IDs
      */
-    canUserManageSchedule(
-        scheduleId: string,
-        platform: "discord" | "telegram",
+    canUserCreateSchedule(
+        platform: PlatformId,
+        scope: string | undefined,
         userId: string,
-        isAdmin = false
+        roleIds: string[] = []
     ): boolean {
+        const policy = this.getPolicy(platform, scope);
+        return (
+            policy.membersCanCreate ||
+            isListed(policy.creators, userId, roleIds) ||
+            isListed(policy.managers, userId, roleIds)
+        );
+    }
+
+    /**
+     * Check if a user can manage a schedule as its creator or as a manager named in the permission policy
+     * The policy of the guild or chat the schedule posts to on that platform decides who besides the creator may.
+     * Admins of the guild or chat may manage the schedule regardless; that is up to the platform to check
+     * @param scheduleId The ID of the schedule
+     * @param platform The platform (discord or telegram)
+     * @param userId The user ID
+     * @param roleIds The user's Discord role IDs
+     */
+    canUserManageSchedule(scheduleId: string, platform: PlatformId, userId: string, roleIds: string[] = []): boolean {
         const schedule = this.getSchedule(scheduleId);
 
         if (!schedule) {
             return false;
         }
 
-        // Admins can manage any schedule
-        if (isAdmin) {
+        // The managers named in the policy can manage any schedule
+        const target = getTarget(schedule, platform);
+        if (isListed(this.getPolicy(platform, target && getTargetScope(target)).managers, userId, roleIds)) {
             return true;
         }
 
@@ -223,50 +569,108 @@ export class ScheduleManager {
     async createUserSchedule({
         name,
         fetchType,
+        mix,
         cronExpression,
-        platform,
-        channelId,
-        guildId,
-        chatId,
+        timezone,
+        catchUp,
+        filters,
+        target,
         userId,
         username,
     }: {
         name: string;
         fetchType: FetchType;
+        mix?: ContentMix;
         cronExpression: string;
-        platform: "discord" | "telegram";
-        channelId?: string;
-        guildId?: string;
-        chatId?: string;
+        timezone?: string;
+        catchUp?: CatchUpConfig;
+        filters?: ContentFilters;
+        target: ScheduleTarget; // Where the command was run
         userId: string;
         username?: string;
     }): Promise<ScheduleConfig> {
         const newSchedule: ScheduleConfig = {
-            id: `${platform}-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+            id: `${target.platform}-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
             name,
             cronExpression,
+            timezone,
+            catchUp,
+            filters,
             enabled: true,
             fetchType,
+            mix,
             createdAt: Date.now(),
             createdBy: {
-                platform,
+                platform: target.platform,
                 userId,
                 username,
             },
+            targets: [target],
         };
 
-        // Add platform-specific fields
-        if (platform === "discord" && channelId) {
-            newSchedule.discord = {
-                channelId,
-                guildId,
-            };
-        } else if (platform === "telegram" && chatId) {
-            newSchedule.telegram = {
-                chatId,
-            };
-        }
-
         return await this.addSchedule(newSchedule);
     }
 }
+
+/**
+ * Check whether a user or one of their roles appears in a policy list
+ */
+function isListed(list: string[], userId: string, roleIds: string[]): boolean {
+    return list.includes(userId) || roleIds.some((roleId) => list.includes(roleId));
+}
+
+/**
+ * Check schedules from an external source for the fields the scheduler relies on
+ * @returns A description of each problem found
+ */
+function validateSchedules(schedules: unknown[]): string[] {
+    const problems: string[] = [];
+    const ids = new Set<string>();
+
+    schedules.forEach((value, index) => {
+        const schedule = value as Partial<ScheduleConfig>;
+        const label = `Schedule ${typeof schedule?.id === "string" ? `"${schedule.id}"` : `#${index + 1}`}`;
+
+        if (!schedule || typeof schedule !== "object") {
+            problems.push(`${label} is not an object`);
+            return;
+        }
+        if (typeof schedule.id !== "string" || !schedule.id) {
+            problems.push(`${label} has no ID`);
+        } else if (ids.has(schedule.id)) {
+            problems.push(`${label} appears more than once`);
+        } else {
+            ids.add(schedule.id);
+        }
+        if (typeof schedule.name !== "string") problems.push(`${label} has no name`);
+        if (typeof schedule.enabled !== "boolean") problems.push(`${label} has no enabled flag`);
+        if (schedule.fetchType !== "artist" && schedule.fetchType !== "nft") {
+            problems.push(`${label} has an invalid fetchType`);
+        }
+        if (typeof schedule.cronExpression !== "string" || !isValidCron(schedule.cronExpression)) {
+            problems.push(`${label} has an invalid cron expression`);
+        }
+        if (schedule.timezone !== undefined && !isValidTimezone(schedule.timezone)) {
+            problems.push(`${label} has an invalid time zone`);
+        }
+        if (schedule.mix !== undefined) {
+            const mixProblem = validateContentMix(schedule.mix);
+            if (mixProblem) problems.push(`${label} mix ${mixProblem}`);
+        }
+        if (!Array.isArray(schedule.targets)) {
+            problems.push(`${label} has no targets list`);
+        } else if (
+            !schedule.targets.every(
+                (target) =>
+                    typeof target?.platform === "string" &&
+                    target.platform !== "" &&
+                    typeof target.target === "string" &&
+                    target.target !== ""
+            )
+        ) {
+            problems.push(`${label} has a target without a platform and a channel or chat ID`);
+        }
+    });
+
+    return problems;
+}
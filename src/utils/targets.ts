@@ -0,0 +1,77 @@
+import { PlatformId, PostTarget, ScheduleConfig, ScheduleTarget } from "../types";
+
+/**
+ * Helpers for the channels and chats a schedule posts to
+ */
+
+/**
+ * Get a schedule's first target on a platform
+ * @param schedule The schedule configuration
+ * @param platform The platform, e.g. "telegram"
+ */
+export function getTarget(schedule: ScheduleConfig, platform: PlatformId): ScheduleTarget | undefined {
+    return schedule.targets.find((target) => target.platform === platform);
+}
+
+/**
+ * Check whether a schedule posts to a channel or chat
+ * @param schedule The schedule configuration
+ * @param platform The platform of the channel or chat
+ * @param target The channel or chat ID
+ */
+export function hasTarget(schedule: ScheduleConfig, platform: PlatformId, target: string): boolean {
+    return schedule.targets.some((entry) => entry.platform === platform && entry.target === target);
+}
+
+/**
+ * Check whether a schedule was created on a platform, rather than linked to it from another one
+ */
+export function isCreatedOn(schedule: ScheduleConfig, platform: PlatformId): boolean {
+    return schedule.targets[0]?.platform === platform;
+}
+
+/**
+ * Get the scope permission policies use for a target: its guild on Discord, the chat itself on Telegram
+ */
+export function getTargetScope(target: ScheduleTarget): string {
+    return target.scope ?? target.target;
+}
+
+/**
+ * Add a target to a schedule, or put it in place of an existing one
+ * @param schedule The schedule configuration
+ * @param target The target to add
+ * @param replacing A target to replace; the new one takes its position so the original target stays first
+ * @returns An updated copy of the schedule
+ */
+export function withTarget(schedule: ScheduleConfig, target: ScheduleTarget, replacing?: PostTarget): ScheduleConfig {
+    const index = replacing
+        ? schedule.targets.findIndex(
+              (entry) => entry.platform === replacing.platform && entry.target === replacing.target
+          )
+        : -1;
+
+    return {
+        ...schedule,
+        targets:
+            index === -1
+                ? [...schedule.targets, target]
+                : schedule.targets.map((entry, entryIndex) => (entryIndex === index ? target : entry)),
+    };
+}
+
+/**
+ * Remove a schedule's targets on a platform
+ * @param schedule The schedule configuration
+ * @param platform The platform to stop posting to
+ * @param target Only remove this channel or chat, rather than every target on the platform
+ * @returns An updated copy of the schedule
+ */
+export function withoutTarget(schedule: ScheduleConfig, platform: PlatformId, target?: string): ScheduleConfig {
+    return {
+        ...schedule,
+        targets: schedule.targets.filter(
+            (entry) => entry.platform !== platform || (target !== undefined && entry.target !== target)
+        ),
+    };
+}